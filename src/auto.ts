@@ -1,7 +1,11 @@
 import { installNetworkInformationPolyfill } from './install.ts';
 
+const isWorker = typeof (globalThis as { WorkerGlobalScope?: unknown })
+    .WorkerGlobalScope !== 'undefined';
+
 if (
-    typeof window !== 'undefined' && typeof navigator !== 'undefined' &&
+    (typeof window !== 'undefined' || isWorker) &&
+    typeof navigator !== 'undefined' &&
     (!('connection' in navigator) || !navigator.connection)
 ) {
     const { default: CLASSIFICATION } = await import(
@@ -0,0 +1,39 @@
+import type { MeasurementBackend } from '../types.ts';
+import { getServerTimingDuration } from './server-timing.ts';
+
+/** Options for the Cloudflare backend */
+export interface CloudflareBackendOptions {
+    /** Origin URL of the speed test server */
+    origin?: string;
+}
+
+/**
+ * Cloudflare speed test backend (`/__down?bytes=N` and `/__up`)
+ * @see https://speed.cloudflare.com
+ *
+ * @param options Backend options
+ * @returns A measurement backend
+ *
+ * @example
+ * ```typescript
+ * const backend = createCloudflareBackend({ origin: 'https://speed.cloudflare.com' });
+ * ```
+ */
+export function createCloudflareBackend(
+    options: CloudflareBackendOptions = {},
+): MeasurementBackend {
+    const origin = options.origin ?? 'https://speed.cloudflare.com';
+
+    return {
+        createUrl({ uid, bytes, index }) {
+            return `${origin}/__down?measId=${uid}&bytes=${bytes}&i=${index}`;
+        },
+        getPayloadSize(bytes) {
+            return bytes;
+        },
+        getServerTime: getServerTimingDuration,
+        createUploadUrl({ uid, index }) {
+            return `${origin}/__up?measId=${uid}&i=${index}`;
+        },
+    };
+}
@@ -0,0 +1,60 @@
+import type { MeasurementBackend } from '../types.ts';
+import { getServerTimingDuration } from './server-timing.ts';
+
+/** Options for the generic query parameter backend */
+export interface QueryParamBackendOptions {
+    /** Absolute URL of the endpoint returning the requested amount of bytes */
+    url: string;
+    /** Name of the query parameter carrying the payload size */
+    bytesParam?: string;
+    /** Name of the query parameter used for cache busting */
+    uidParam?: string;
+    /** Absolute URL accepting POSTed upload probes (no uplink measurement if unset) */
+    uploadUrl?: string;
+    /** Custom server time extraction, defaults to `Server-Timing` `dur` */
+    getServerTime?: MeasurementBackend['getServerTime'];
+}
+
+/**
+ * Generic backend for servers that send as many bytes as asked in a query parameter
+ *
+ * @param options Backend options
+ * @returns A measurement backend
+ *
+ * @example
+ * ```typescript
+ * // GET https://cdn.example.com/probe?size=100000&uid=abcde-0
+ * const backend = createQueryParamBackend({
+ *   url: 'https://cdn.example.com/probe',
+ *   bytesParam: 'size',
+ *   uidParam: 'uid',
+ * });
+ * ```
+ */
+export function createQueryParamBackend(
+    options: QueryParamBackendOptions,
+): MeasurementBackend {
+    const bytesParam = options.bytesParam ?? 'bytes';
+    const uidParam = options.uidParam ?? 'measId';
+    const uploadUrl = options.uploadUrl;
+
+    return {
+        createUrl({ uid, bytes, index }) {
+            const url = new URL(options.url);
+            url.searchParams.set(bytesParam, `${bytes}`);
+            url.searchParams.set(uidParam, `${uid}-${index}`);
+            return url.href;
+        },
+        getPayloadSize(bytes) {
+            return bytes;
+        },
+        getServerTime: options.getServerTime ?? getServerTimingDuration,
+        createUploadUrl: uploadUrl === undefined
+            ? undefined
+            : ({ uid, index }) => {
+                const url = new URL(uploadUrl);
+                url.searchParams.set(uidParam, `${uid}-${index}`);
+                return url.href;
+            },
+    };
+}
@@ -0,0 +1,13 @@
+/**
+ * Extract server processing time from the `Server-Timing` response header
+ * @param res Fetch response object
+ * @returns Server time in milliseconds or null
+ */
+export const getServerTimingDuration = (res: Response): number | null => {
+    const serverTiming = res.headers.get('server-timing');
+    if (serverTiming) {
+        const match = serverTiming.match(/.*dur=([0-9.]+)/);
+        if (match) return +match[1];
+    }
+    return null;
+};
@@ -0,0 +1,80 @@
+import type { MeasurementBackend } from '../types.ts';
+import { getServerTimingDuration } from './server-timing.ts';
+
+/** A pre-sized probe file */
+export interface StaticProbeFile {
+    /** URL of the file, resolved against `origin` */
+    path: string;
+    /** Size of the file in bytes */
+    bytes: number;
+}
+
+/** Options for the static files backend */
+export interface StaticFileBackendOptions {
+    /** Origin URL the file paths are resolved against */
+    origin: string;
+    /** Available probe files (at least one) */
+    files: StaticProbeFile[];
+    /** Name of the query parameter used for cache busting */
+    uidParam?: string;
+    /** Absolute URL accepting POSTed upload probes (no uplink measurement if unset) */
+    uploadUrl?: string;
+    /** Custom server time extraction, defaults to `Server-Timing` `dur` */
+    getServerTime?: MeasurementBackend['getServerTime'];
+}
+
+/**
+ * Backend for static hosts (CDN, S3...) serving pre-sized probe files
+ *
+ * Each probe uses the smallest file that is at least as big as the requested
+ * size (or the biggest one available). Latency probes use the smallest file.
+ *
+ * @param options Backend options
+ * @returns A measurement backend
+ *
+ * @example
+ * ```typescript
+ * const backend = createStaticFileBackend({
+ *   origin: 'https://static.example.com',
+ *   files: [
+ *     { path: '/probe-1k.bin', bytes: 1_000 },
+ *     { path: '/probe-100k.bin', bytes: 100_000 },
+ *     { path: '/probe-1m.bin', bytes: 1_000_000 },
+ *   ],
+ * });
+ * ```
+ */
+export function createStaticFileBackend(
+    options: StaticFileBackendOptions,
+): MeasurementBackend {
+    if (options.files.length === 0) {
+        throw new TypeError('At least one probe file is required');
+    }
+    const files = [...options.files].sort((a, b) => a.bytes - b.bytes);
+    const uidParam = options.uidParam ?? 'measId';
+    const uploadUrl = options.uploadUrl;
+
+    const pickFile = (bytes: number): StaticProbeFile => {
+        return files.find((file) => file.bytes >= bytes) ??
+            files[files.length - 1];
+    };
+
+    return {
+        createUrl({ uid, bytes, index }) {
+            const url = new URL(pickFile(bytes).path, options.origin);
+            url.searchParams.set(uidParam, `${uid}-${index}`);
+            return url.href;
+        },
+        getPayloadSize(bytes) {
+            return bytes === 0 ? 0 : pickFile(bytes).bytes;
+        },
+        getServerTime: options.getServerTime ?? getServerTimingDuration,
+        createUploadUrl: uploadUrl === undefined
+            ? undefined
+            : ({ uid, index }) => {
+                const url = new URL(uploadUrl);
+                url.searchParams.set(uidParam, `${uid}-${index}`);
+                return url.href;
+            },
+    };
+}
@@ -0,0 +1,200 @@
+import type {
+    ConnectionInfo,
+    EffectiveConnectionType,
+    MessagePortLike,
+    NetworkInformationLike,
+    NetworkType,
+} from './types.ts';
+import { NetworkInformation } from './network-information.ts';
+
+/** Messages exchanged between the host and its mirrors */
+type BridgeMessage =
+    | { kind: 'network-information:state'; info: ConnectionInfo }
+    | { kind: 'network-information:sync' }
+    | { kind: 'network-information:measure' };
+
+/** Read-only copy of a NetworkInformation hosted in another context */
+export interface NetworkInformationMirror extends EventTarget {
+    readonly downlink?: number;
+    readonly uplink?: number;
+    readonly rtt?: number;
+    readonly effectiveType?: EffectiveConnectionType;
+    readonly customType?: string;
+    readonly saveData: boolean;
+    readonly type: NetworkType;
+    readonly downlinkMax: number;
+    readonly stale: boolean;
+    onchange:
+        | ((this: NetworkInformationMirror, event: Event) => unknown)
+        | null;
+
+    /** Ask the host to measure, resolves once the request is sent */
+    measure(): Promise<void>;
+    getConnectionInfo(): ConnectionInfo;
+    /** Stop mirroring, the host is left untouched */
+    dispose(): void;
+}
+
+/**
+ * Serve the state of an instance to mirrors in other contexts,
+ * e.g. from a worker to the main thread
+ *
+ * @param connection Instance to expose
+ * @param port Port to the mirrors (`self` in a dedicated worker, a `MessagePort`...)
+ * @returns Function that stops serving
+ *
+ * @example
+ * ```typescript
+ * // worker.ts
+ * const connection = createNetworkInformation({
+ *   classificationTable: CLASSIFICATION,
+ *   periodicMeasurement: true,
+ * });
+ * exposeNetworkInformation(connection, self);
+ * ```
+ */
+export function exposeNetworkInformation(
+    connection: NetworkInformationLike,
+    port: MessagePortLike,
+): () => void {
+    const postState = (): void => {
+        const message: BridgeMessage = {
+            kind: 'network-information:state',
+            info: connection.getConnectionInfo(),
+        };
+        port.postMessage(message);
+    };
+
+    const handleMessage = ({ data }: { data: unknown }): void => {
+        switch ((data as BridgeMessage | undefined)?.kind) {
+            case 'network-information:sync':
+                postState();
+                break;
+            case 'network-information:measure':
+                connection.measure();
+                break;
+        }
+    };
+
+    connection.addEventListener('change', postState);
+    port.addEventListener('message', handleMessage);
+    port.start?.();
+    postState();
+
+    return () => {
+        connection.removeEventListener('change', postState);
+        port.removeEventListener('message', handleMessage);
+    };
+}
+
+/**
+ * Mirror an instance hosted in another context, e.g. in a worker
+ *
+ * Values are `undefined` until the host answers. A 'change' event is
+ * dispatched on every update of the host.
+ *
+ * @param port Port to the host (a `Worker`, a `MessagePort`...)
+ * @returns A mirror of the hosted instance
+ *
+ * @example
+ * ```typescript
+ * const worker = new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' });
+ * const connection = createNetworkInformationMirror(worker);
+ * connection.addEventListener('change', () => {
+ *   console.log('Network changed:', connection.effectiveType);
+ * });
+ * ```
+ */
+export function createNetworkInformationMirror(
+    port: MessagePortLike,
+): NetworkInformationMirror {
+    let info: ConnectionInfo = {
+        saveData: false,
+        type: 'unknown',
+        downlinkMax: Infinity,
+        stale: false,
+    };
+
+    const eventTarget = Reflect.construct(
+        EventTarget,
+        [],
+        NetworkInformation,
+    ) as NetworkInformationMirror;
+    let onchange: NetworkInformationMirror['onchange'] = null;
+    let onchangeListening: boolean = false;
+
+    const post = (message: BridgeMessage): void => {
+        port.postMessage(message);
+    };
+
+    const handleMessage = ({ data }: { data: unknown }): void => {
+        const message = data as BridgeMessage | undefined;
+        if (message?.kind !== 'network-information:state') return;
+        info = { ...message.info };
+        eventTarget.dispatchEvent(new Event('change'));
+    };
+
+    port.addEventListener('message', handleMessage);
+    port.start?.();
+    post({ kind: 'network-information:sync' });
+
+    const publicInterface = {
+        get downlink(): number | undefined {
+            return info.downlink;
+        },
+        get uplink(): number | undefined {
+            return info.uplink;
+        },
+        get rtt(): number | undefined {
+            return info.rtt;
+        },
+        get effectiveType(): EffectiveConnectionType | undefined {
+            return info.effectiveType;
+        },
+        get customType(): string | undefined {
+            return info.customType;
+        },
+        get saveData(): boolean {
+            return info.saveData;
+        },
+        get type(): NetworkType {
+            return info.type as NetworkType;
+        },
+        get downlinkMax(): number {
+            return info.downlinkMax;
+        },
+        get stale(): boolean {
+            return info.stale;
+        },
+
+        measure(): Promise<void> {
+            post({ kind: 'network-information:measure' });
+            return Promise.resolve();
+        },
+        getConnectionInfo(): ConnectionInfo {
+            return { ...info };
+        },
+        dispose(): void {
+            port.removeEventListener('message', handleMessage);
+        },
+
+        /** Handler for 'change' events */
+        get onchange(): NetworkInformationMirror['onchange'] {
+            return onchange;
+        },
+        set onchange(handler: NetworkInformationMirror['onchange']) {
+            onchange = typeof handler === 'function' ? handler : null;
+            if (onchange && !onchangeListening) {
+                onchangeListening = true;
+                eventTarget.addEventListener('change', (event) => {
+                    onchange?.call(eventTarget, event);
+                });
+            }
+        },
+    };
+
+    return Object.defineProperties(
+        eventTarget,
+        Object.getOwnPropertyDescriptors(publicInterface),
+    );
+}
@@ -0,0 +1,274 @@
+import type {
+    ConnectionInfo,
+    MessagePortLike,
+    NetworkInformationLike,
+    OutputShaping,
+} from './types.ts';
+import {
+    _getShapedConnectionInfo,
+    _shapeValue,
+} from './network-information.ts';
+
+/** Client hint header names and values */
+export type ClientHintHeaders = Partial<
+    Record<'ECT' | 'RTT' | 'Downlink' | 'Save-Data', string>
+>;
+
+/** Message carrying the client hints from a page to its service worker */
+interface ClientHintsMessage {
+    kind: 'network-information:client-hints';
+    headers: ClientHintHeaders;
+}
+
+/** Subset of the ServiceWorkerContainer API used to reach the service worker */
+interface ServiceWorkerControllerLike {
+    readonly controller: { postMessage(message: unknown): void } | null;
+    addEventListener(type: 'controllerchange', listener: () => void): void;
+    removeEventListener(type: 'controllerchange', listener: () => void): void;
+}
+
+/** Subset of the Document API used to write cookies */
+interface CookieDocumentLike {
+    cookie: string;
+}
+
+/**
+ * Get the origin of the current context, if any
+ */
+const getOrigin = (): string | undefined =>
+    (globalThis as { location?: { origin: string } }).location?.origin;
+
+/** Rounding and caps of Chrome's client hints */
+const CLIENT_HINTS_SHAPING: OutputShaping = {
+    rttStep: 50, // Nearest 50ms
+    maxRtt: 3_000, // Up to 3000ms
+    downlinkStep: 0.05, // Nearest 50 kbps
+    maxDownlink: 10, // Up to 10 Mbps
+};
+
+/**
+ * Derive client hint headers from connection values, rounded like Chrome
+ * (RTT to 50ms up to 3000ms, downlink to 50 kbps up to 10 Mbps)
+ * @param info Connection values
+ * @returns Headers of the known values, `Save-Data` only when enabled
+ */
+export const _clientHintHeaders = (
+    info: ConnectionInfo,
+): ClientHintHeaders => {
+    const headers: ClientHintHeaders = {};
+    if (info.effectiveType) headers['ECT'] = info.effectiveType;
+    if (info.rtt !== undefined) {
+        headers['RTT'] = String(
+            _shapeValue(
+                info.rtt,
+                CLIENT_HINTS_SHAPING.rttStep,
+                CLIENT_HINTS_SHAPING.maxRtt,
+            ),
+        );
+    }
+    if (info.downlink !== undefined) {
+        headers['Downlink'] = String(
+            _shapeValue(
+                info.downlink,
+                CLIENT_HINTS_SHAPING.downlinkStep,
+                CLIENT_HINTS_SHAPING.maxDownlink,
+            ),
+        );
+    }
+    if (info.saveData) headers['Save-Data'] = 'on';
+    return headers;
+};
+
+/**
+ * Derive the client hint headers of an instance, shaped once with its
+ * output shaping and noise (the exposed values of mirrors are rounded again)
+ */
+const connectionHintHeaders = (
+    connection: NetworkInformationLike,
+): ClientHintHeaders =>
+    _clientHintHeaders(
+        _getShapedConnectionInfo(connection, CLIENT_HINTS_SHAPING),
+    );
+
+/**
+ * Add hint headers to a request, keeping the headers already set
+ */
+const setHeaders = (headers: Headers, hints: ClientHintHeaders): void => {
+    for (const [name, value] of Object.entries(hints)) {
+        if (!headers.has(name)) headers.set(name, value);
+    }
+};
+
+/**
+ * Create a fetch function sending client hints with same-origin requests
+ *
+ * Cross-origin requests are sent untouched: the hints would trigger a
+ * CORS preflight and leak the values to third parties.
+ *
+ * @param connection Instance the hints are derived from
+ * @param options Fetch API and origin of the page (defaults to `location.origin`)
+ * @returns A fetch function
+ *
+ * @example
+ * ```typescript
+ * const fetchWithHints = createClientHintsFetch(navigator.connection);
+ * const response = await fetchWithHints('/api/feed');
+ * ```
+ */
+export function createClientHintsFetch(
+    connection: NetworkInformationLike,
+    options: { fetch?: typeof fetch; origin?: string } = {},
+): (input: RequestInfo | URL, init?: RequestInit) => Promise<Response> {
+    const fetch = options.fetch ?? globalThis.fetch.bind(globalThis);
+    const origin = options.origin ?? getOrigin();
+
+    return (input, init) => {
+        const request = new Request(input, init);
+        if (new URL(request.url).origin === origin) {
+            setHeaders(
+                request.headers,
+                connectionHintHeaders(connection),
+            );
+        }
+        return fetch(request);
+    };
+}
+
+/**
+ * Keep the service worker informed of the client hints of the page
+ *
+ * The hints are posted to the controlling service worker on every change,
+ * and again when another service worker takes control.
+ *
+ * @param connection Instance the hints are derived from
+ * @param serviceWorker Service worker container (defaults to `navigator.serviceWorker`)
+ * @returns Function that stops posting
+ */
+export function postClientHints(
+    connection: NetworkInformationLike,
+    serviceWorker: ServiceWorkerControllerLike | undefined =
+        (globalThis.navigator as {
+            serviceWorker?: ServiceWorkerControllerLike;
+        } | undefined)?.serviceWorker,
+): () => void {
+    const post = (): void => {
+        const message: ClientHintsMessage = {
+            kind: 'network-information:client-hints',
+            headers: connectionHintHeaders(connection),
+        };
+        serviceWorker?.controller?.postMessage(message);
+    };
+
+    connection.addEventListener('change', post);
+    serviceWorker?.addEventListener('controllerchange', post);
+    post();
+
+    return () => {
+        connection.removeEventListener('change', post);
+        serviceWorker?.removeEventListener('controllerchange', post);
+    };
+}
+
+/** Client hints received by a service worker */
+export interface ServiceWorkerClientHints {
+    /**
+     * Add the latest hints to a same-origin request, navigations are left
+     * to the cookie fallback as they cannot be rebuilt
+     * @param request Request of the fetch event
+     * @returns The request to send upstream
+     */
+    apply(request: Request): Request;
+    /** Stop listening to the pages */
+    dispose(): void;
+}
+
+/**
+ * Receive in a service worker the client hints posted by the pages
+ * with `postClientHints`
+ *
+ * @param options Global scope receiving the messages (defaults to `self`)
+ * and origin of the service worker (defaults to `location.origin`)
+ * @returns Client hints to apply to the fetch events
+ *
+ * @example
+ * ```typescript
+ * // sw.ts
+ * const hints = createServiceWorkerClientHints();
+ * self.addEventListener('fetch', (event) => {
+ *   event.respondWith(fetch(hints.apply(event.request)));
+ * });
+ * ```
+ */
+export function createServiceWorkerClientHints(
+    options: { scope?: MessagePortLike; origin?: string } = {},
+): ServiceWorkerClientHints {
+    const scope = options.scope ?? globalThis as unknown as MessagePortLike;
+    const origin = options.origin ?? getOrigin();
+    let hints: ClientHintHeaders = {};
+
+    const handleMessage = ({ data }: { data: unknown }): void => {
+        const message = data as ClientHintsMessage | undefined;
+        if (message?.kind !== 'network-information:client-hints') return;
+        hints = { ...message.headers };
+    };
+
+    scope.addEventListener('message', handleMessage);
+
+    return {
+        apply(request) {
+            if (
+                request.mode === 'navigate' ||
+                new URL(request.url).origin !== origin ||
+                Object.keys(hints).length === 0
+            ) {
+                return request;
+            }
+            const headers = new Headers(request.headers);
+            setHeaders(headers, hints);
+            return new Request(request, { headers });
+        },
+        dispose() {
+            scope.removeEventListener('message', handleMessage);
+        },
+    };
+}
+
+/**
+ * Keep a cookie with the client hints, so that navigations carry them too
+ *
+ * The cookie value is a query string, e.g. `ect=4g&rtt=50&downlink=10`.
+ *
+ * @param connection Instance the hints are derived from
+ * @param options Cookie name (defaults to 'network-information'), path
+ * (defaults to '/') and document (defaults to `document`)
+ * @returns Function that stops updating the cookie
+ */
+export function setClientHintsCookie(
+    connection: NetworkInformationLike,
+    options: { name?: string; path?: string; document?: CookieDocumentLike } =
+        {},
+): () => void {
+    const name = options.name ?? 'network-information';
+    const path = options.path ?? '/';
+    const document = options.document ??
+        (globalThis as { document?: CookieDocumentLike }).document;
+
+    const update = (): void => {
+        const hints = connectionHintHeaders(connection);
+        const value = new URLSearchParams(
+            Object.entries(hints).map((
+                [header, hint],
+            ) => [header.toLowerCase(), hint]),
+        );
+        if (document) {
+            document.cookie = `${name}=${value}; path=${path}; SameSite=Lax`;
+        }
+    };
+
+    connection.addEventListener('change', update);
+    update();
+
+    return () => {
+        connection.removeEventListener('change', update);
+    };
+}
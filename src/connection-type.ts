@@ -0,0 +1,84 @@
+import type {
+    NetworkMeasurement,
+    NetworkType,
+    NetworkTypeHint,
+    NetworkTypeProvider,
+} from './types.ts';
+import { _median } from './estimators.ts';
+
+/** A type provider whose hint is set by the application */
+export interface ManualNetworkTypeProvider extends NetworkTypeProvider {
+    /**
+     * Set the current hint, notifying subscribers
+     * @param hint Connection type hint, or undefined if unknown
+     */
+    set(hint: NetworkTypeHint | undefined): void;
+}
+
+/**
+ * Guess the connection type from the RTT signature of the latest samples
+ *
+ * Wired links have low and steady latency, Wi-Fi adds some latency and
+ * jitter, cellular links have high latency or jitter. This is a rough
+ * heuristic: prefer a type provider when the true type is available.
+ *
+ * @param samples Measurements, oldest first
+ * @returns Guessed connection type, 'unknown' with less than 2 samples
+ */
+export const _inferNetworkType = (
+    samples: NetworkMeasurement[],
+): NetworkType => {
+    if (samples.length < 2) return 'unknown';
+
+    const rtts = samples.map((m) => m.rtt);
+    let jitter = 0;
+    for (let i = 1; i < rtts.length; i++) {
+        jitter += Math.abs(rtts[i] - rtts[i - 1]);
+    }
+    jitter /= rtts.length - 1;
+    const rtt = _median([...rtts].sort((a, b) => a - b));
+
+    if (rtt < 15 && jitter < 3) return 'ethernet';
+    if (rtt < 60 && jitter < 15) return 'wifi';
+    return 'cellular';
+};
+
+/**
+ * Create a type provider fed by the application, e.g. from a native WebView bridge
+ *
+ * @param initialHint Hint known at creation time
+ * @returns A type provider with a `set()` method
+ *
+ * @example
+ * ```typescript
+ * const typeProvider = createManualTypeProvider();
+ * nativeBridge.onConnectionChange((type) => typeProvider.set({ type }));
+ *
+ * const networkApi = createNetworkInformation({
+ *   classificationTable: CLASSIFICATION,
+ *   typeProvider,
+ * });
+ * ```
+ */
+export function createManualTypeProvider(
+    initialHint?: NetworkTypeHint,
+): ManualNetworkTypeProvider {
+    let hint = initialHint;
+    const listeners = new Set<(hint: NetworkTypeHint | undefined) => void>();
+
+    return {
+        getType() {
+            return hint;
+        },
+        subscribe(listener) {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+        set(newHint) {
+            hint = newHint;
+            for (const listener of listeners) {
+                listener(hint);
+            }
+        },
+    };
+}
@@ -0,0 +1,190 @@
+import type {
+    BroadcastChannelConstructor,
+    GlobalScopeLike,
+    LatencyStats,
+    NetworkEstimate,
+} from './types.ts';
+
+/** Estimate shared by the leader tab */
+export interface CrossTabResult extends NetworkEstimate {
+    /** Latency variability of the latest multi-ping phase */
+    latency?: LatencyStats;
+    /** Round-trip time under load in milliseconds */
+    loadedRtt?: number;
+    /** Confidence from sample count and variance, before aging */
+    sampleConfidence?: number;
+    /** Time of the newest sample in milliseconds since epoch */
+    timestamp?: number;
+    /** Whether this is a preliminary result */
+    preliminary: boolean;
+}
+
+/** Messages exchanged by the tabs */
+type CrossTabMessage =
+    | { kind: 'heartbeat'; id: number }
+    | { kind: 'resign'; id: number }
+    | { kind: 'sync'; id: number }
+    | { kind: 'measure'; id: number }
+    | { kind: 'result'; id: number; result: CrossTabResult };
+
+/** Options for the tab coordinator */
+export interface TabCoordinatorOptions {
+    /** BroadcastChannel name shared by the tabs */
+    channelName: string;
+    /** BroadcastChannel API */
+    BroadcastChannel: BroadcastChannelConstructor;
+    /** Interval of the leader heartbeat in milliseconds */
+    heartbeatInterval: number;
+    /** Global scope dispatching 'pagehide', to hand over leadership early */
+    globalScope?: GlobalScopeLike;
+    /** Whether this tab may lead, e.g. not while hidden, defaults to always */
+    canLead?: () => boolean;
+    /** Called on followers with every result of the leader */
+    onResult: (result: CrossTabResult) => void;
+    /** Called when this tab gains or loses leadership */
+    onLeaderChange: (leader: boolean) => void;
+    /** Called on the leader when a follower asks for a measurement */
+    onMeasureRequest: () => void;
+}
+
+/** Leader election and result sharing between tabs */
+export interface TabCoordinator {
+    /** Whether this tab is the one measuring */
+    isLeader(): boolean;
+    /** Share a result of the leader with the followers */
+    publish(result: CrossTabResult): void;
+    /** Ask the leader for a measurement */
+    requestMeasurement(): void;
+    /** Hand over leadership if this tab can no longer lead, e.g. once hidden */
+    checkLeadership(): void;
+    /** Leave the group, handing over leadership */
+    close(): void;
+}
+
+/**
+ * Create a coordinator electing one leader among the tabs of an origin
+ *
+ * The leader sends a heartbeat every `heartbeatInterval`. A tab that misses
+ * two heartbeats (e.g. the leader crashed), or is told the leader resigned,
+ * takes over. When two tabs claim leadership at once, the lowest id wins.
+ * Tabs that cannot lead (`canLead`) resign and never take over.
+ *
+ * @param options Channel, timing and callbacks
+ * @returns A tab coordinator
+ */
+export function createTabCoordinator(
+    options: TabCoordinatorOptions,
+): TabCoordinator {
+    const { heartbeatInterval, globalScope } = options;
+    const canLead = options.canLead ?? (() => true);
+    const { onResult, onLeaderChange, onMeasureRequest } = options;
+    const id = Math.random();
+    const channel = new options.BroadcastChannel(options.channelName);
+    let leader = false;
+    let lastResult: CrossTabResult | undefined;
+    // As if a heartbeat was missed: a lone tab leads after one interval
+    let lastHeartbeat = Date.now() - heartbeatInterval;
+
+    const post = (message: CrossTabMessage): void => {
+        channel.postMessage(message);
+    };
+
+    const setLeader = (value: boolean): void => {
+        if (leader === value) return;
+        leader = value;
+        if (leader) post({ kind: 'heartbeat', id });
+        onLeaderChange(leader);
+    };
+
+    /**
+     * Hand over leadership, e.g. when the page goes away
+     */
+    const resign = (): void => {
+        if (!leader) return;
+        setLeader(false);
+        lastHeartbeat = Date.now();
+        post({ kind: 'resign', id });
+    };
+
+    /**
+     * Heartbeat as the leader, take over if the leader went silent
+     */
+    const check = (): void => {
+        if (leader) {
+            if (!canLead()) {
+                resign();
+                return;
+            }
+            post({ kind: 'heartbeat', id });
+        } else if (
+            Date.now() - lastHeartbeat >= 2 * heartbeatInterval && canLead()
+        ) {
+            setLeader(true);
+        }
+    };
+
+    const handleMessage = ({ data }: { data: unknown }): void => {
+        const message = data as CrossTabMessage | undefined;
+        switch (message?.kind) {
+            case 'heartbeat':
+                // Two leaders: the lowest id keeps leading
+                if (leader && message.id > id) {
+                    post({ kind: 'heartbeat', id });
+                    return;
+                }
+                lastHeartbeat = Date.now();
+                setLeader(false);
+                break;
+            case 'result':
+                if (leader) return;
+                lastHeartbeat = Date.now();
+                onResult(message.result);
+                break;
+            case 'sync':
+                if (!leader) return;
+                post({ kind: 'heartbeat', id });
+                if (lastResult) {
+                    post({ kind: 'result', id, result: lastResult });
+                }
+                break;
+            case 'measure':
+                if (leader) onMeasureRequest();
+                break;
+            case 'resign':
+                if (leader) return;
+                lastHeartbeat = -Infinity;
+                check();
+                break;
+        }
+    };
+
+    channel.addEventListener('message', handleMessage);
+    globalScope?.addEventListener('pagehide', resign);
+    const timer = setInterval(check, heartbeatInterval);
+    // Get to know the current leader and its latest result
+    post({ kind: 'sync', id });
+
+    return {
+        isLeader() {
+            return leader;
+        },
+        publish(result) {
+            if (!leader) return;
+            if (!result.preliminary) lastResult = result;
+            post({ kind: 'result', id, result });
+        },
+        requestMeasurement() {
+            post({ kind: 'measure', id });
+        },
+        checkLeadership() {
+            if (!canLead()) resign();
+        },
+        close() {
+            clearInterval(timer);
+            globalScope?.removeEventListener('pagehide', resign);
+            resign();
+            channel.removeEventListener('message', handleMessage);
+            channel.close();
+        },
+    };
+}
@@ -0,0 +1,118 @@
+import type { DataBudgetUsage, StorageLike } from './types.ts';
+
+/** Options for the data budget */
+export interface DataBudgetOptions {
+    /** Byte cap for the browsing session */
+    sessionLimit: number;
+    /** Byte cap for the current UTC day */
+    dailyLimit: number;
+    /** Storage key of the persisted usage */
+    storageKey: string;
+    /** Storage of the daily usage, shared by the tabs of the origin */
+    localStorage?: StorageLike;
+    /** Storage of the session usage, surviving reloads */
+    sessionStorage?: StorageLike;
+}
+
+/** Byte accounting of the probe traffic */
+export interface DataBudget {
+    /**
+     * Account transferred bytes
+     * @param bytes Transferred bytes
+     * @param now Current time in milliseconds
+     */
+    record(bytes: number, now: number): void;
+    /** Usage against the caps at the given time */
+    getUsage(now: number): DataBudgetUsage;
+}
+
+/**
+ * Read a persisted value, ignoring unavailable storage and malformed data
+ */
+const readItem = (storage: StorageLike | undefined, key: string): unknown => {
+    try {
+        const item = storage?.getItem(key);
+        return item ? JSON.parse(item) : undefined;
+    } catch {
+        return undefined;
+    }
+};
+
+/**
+ * Persist a value, the usage lasts for the instance if storage is unavailable
+ */
+const writeItem = (
+    storage: StorageLike | undefined,
+    key: string,
+    value: unknown,
+): void => {
+    try {
+        storage?.setItem(key, JSON.stringify(value));
+    } catch {
+        // Storage not available or full
+    }
+};
+
+/**
+ * Get the UTC day of a timestamp, e.g. '2024-05-31'
+ */
+const getDay = (now: number): string =>
+    new Date(now).toISOString().slice(0, 10);
+
+/**
+ * Create a data budget accounting bytes per session and per UTC day
+ *
+ * Usage is persisted so that reloads do not reset it: the session usage in
+ * `sessionStorage`, the daily usage in `localStorage` (shared by all tabs).
+ *
+ * @param options Caps and storage
+ * @returns A data budget
+ */
+export function createDataBudget(options: DataBudgetOptions): DataBudget {
+    const { sessionLimit, dailyLimit, storageKey } = options;
+    const { localStorage, sessionStorage } = options;
+
+    let sessionBytes = Number(readItem(sessionStorage, storageKey)) || 0;
+    let daily = { day: '', bytes: 0 };
+
+    /**
+     * Reload the daily usage, other tabs may have added to it
+     */
+    const loadDaily = (now: number): void => {
+        const day = getDay(now);
+        const stored = readItem(localStorage, storageKey) as
+            | { day?: unknown; bytes?: unknown }
+            | undefined;
+        if (stored?.day === day && typeof stored.bytes === 'number') {
+            daily = { day, bytes: Math.max(daily.bytes, stored.bytes) };
+        } else if (daily.day !== day) {
+            daily = { day, bytes: 0 };
+        }
+    };
+
+    return {
+        record(bytes, now) {
+            loadDaily(now);
+            sessionBytes += bytes;
+            daily.bytes += bytes;
+            writeItem(sessionStorage, storageKey, sessionBytes);
+            writeItem(localStorage, storageKey, daily);
+        },
+        getUsage(now) {
+            loadDaily(now);
+            return {
+                sessionBytes,
+                dailyBytes: daily.bytes,
+                sessionLimit,
+                dailyLimit,
+                remaining: Math.max(
+                    0,
+                    Math.min(
+                        sessionLimit - sessionBytes,
+                        dailyLimit - daily.bytes,
+                    ),
+                ),
+            };
+        },
+    };
+}
@@ -0,0 +1,189 @@
+import type {
+    NetworkEstimate,
+    NetworkEstimator,
+    NetworkMeasurement,
+} from './types.ts';
+
+/** Options shared by all the estimators */
+export interface EstimatorWindowOptions {
+    /** Maximum number of samples kept in the sliding window */
+    maxSamples?: number;
+    /** Maximum age of a sample in milliseconds */
+    maxAge?: number;
+}
+
+/** Options for the time-decayed weighted median estimator */
+export interface WeightedMedianEstimatorOptions extends EstimatorWindowOptions {
+    /** Age in milliseconds at which a sample weighs half as much */
+    halfLife?: number;
+}
+
+/** Options for the exponentially weighted moving average estimator */
+export interface EwmaEstimatorOptions extends EstimatorWindowOptions {
+    /** Smoothing factor in (0, 1], higher values favour recent samples */
+    alpha?: number;
+}
+
+/**
+ * Calculate median value from array of numbers
+ * @param arr Sorted array of numbers
+ * @returns Median value
+ */
+export const _median = (arr: number[]): number => {
+    const mid = Math.floor(arr.length / 2);
+    return arr.length % 2 !== 0 ? arr[mid] : (arr[mid - 1] + arr[mid]) / 2;
+};
+
+/**
+ * Calculate weighted median value
+ * @param values Values with their weights, in any order
+ * @returns Value at which the cumulative weight reaches half of the total
+ */
+export const _weightedMedian = (
+    values: Array<{ value: number; weight: number }>,
+): number => {
+    const sorted = [...values].sort((a, b) => a.value - b.value);
+    const total = sorted.reduce((sum, v) => sum + v.weight, 0);
+    let cumulative = 0;
+    for (const { value, weight } of sorted) {
+        cumulative += weight;
+        if (cumulative >= total / 2) return value;
+    }
+    return sorted[sorted.length - 1].value;
+};
+
+/**
+ * Create the sliding window shared by the estimators
+ */
+const createWindow = (options: EstimatorWindowOptions) => {
+    const maxSamples = options.maxSamples ?? 20;
+    const maxAge = options.maxAge ?? Infinity;
+    let samples: NetworkMeasurement[] = [];
+
+    return {
+        add(measurement: NetworkMeasurement): void {
+            samples.push(measurement);
+            samples.sort((a, b) => a.timestamp - b.timestamp);
+            if (samples.length > maxSamples) {
+                samples = samples.slice(-maxSamples);
+            }
+        },
+        getSamples(now: number): NetworkMeasurement[] {
+            samples = samples.filter((m) => now - m.timestamp <= maxAge);
+            return [...samples];
+        },
+        clear(): void {
+            samples = [];
+        },
+    };
+};
+
+/**
+ * Aggregate each metric of the samples with the given reducer
+ */
+const aggregate = (
+    samples: NetworkMeasurement[],
+    reduce: (values: number[], samples: NetworkMeasurement[]) => number,
+): NetworkEstimate | null => {
+    if (samples.length === 0) return null;
+
+    const withUplink = samples.filter((m) => m.uplink !== undefined);
+
+    return {
+        downlink: reduce(samples.map((m) => m.downlink), samples),
+        rtt: reduce(samples.map((m) => m.rtt), samples),
+        uplink: withUplink.length
+            ? reduce(withUplink.map((m) => m.uplink!), withUplink)
+            : undefined,
+    };
+};
+
+/**
+ * Plain median over a sliding window of the latest samples
+ *
+ * @param options Window options
+ * @returns A network estimator
+ */
+export function createMedianEstimator(
+    options: EstimatorWindowOptions = {},
+): NetworkEstimator {
+    const window = createWindow(options);
+
+    return {
+        ...window,
+        estimate(now) {
+            return aggregate(
+                window.getSamples(now),
+                (values) => _median(values.sort((a, b) => a - b)),
+            );
+        },
+    };
+}
+
+/**
+ * Time-decayed weighted median, similar to Chromium's network quality estimator
+ *
+ * Every sample weighs `0.5 ^ (age / halfLife)`, so old samples still smooth
+ * out noisy ones but recent samples dominate.
+ *
+ * @param options Window and decay options
+ * @returns A network estimator
+ *
+ * @example
+ * ```typescript
+ * const networkApi = createNetworkInformation({
+ *   classificationTable: CLASSIFICATION,
+ *   periodicMeasurement: true,
+ *   estimator: createWeightedMedianEstimator({ halfLife: 60_000 }),
+ * });
+ * ```
+ */
+export function createWeightedMedianEstimator(
+    options: WeightedMedianEstimatorOptions = {},
+): NetworkEstimator {
+    const halfLife = options.halfLife ?? 60_000;
+    const window = createWindow(options);
+
+    return {
+        ...window,
+        estimate(now) {
+            return aggregate(
+                window.getSamples(now),
+                (values, samples) =>
+                    _weightedMedian(values.map((value, i) => ({
+                        value,
+                        weight: Math.pow(
+                            0.5,
+                            Math.max(0, now - samples[i].timestamp) / halfLife,
+                        ),
+                    }))),
+            );
+        },
+    };
+}
+
+/**
+ * Exponentially weighted moving average over a sliding window
+ *
+ * @param options Window and smoothing options
+ * @returns A network estimator
+ */
+export function createEwmaEstimator(
+    options: EwmaEstimatorOptions = {},
+): NetworkEstimator {
+    const alpha = options.alpha ?? 0.3;
+    const window = createWindow(options);
+
+    return {
+        ...window,
+        estimate(now) {
+            return aggregate(
+                window.getSamples(now),
+                (values) =>
+                    values.reduce((average, value) =>
+                        average + alpha * (value - average)
+                    ),
+            );
+        },
+    };
+}
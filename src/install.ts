@@ -48,8 +48,8 @@ import { createNetworkInformation } from './network-information.ts';
  *   periodicMeasurement: true
  * });
  *
- * connection.addEventListener('change', (event) => {
- *   console.log('Network changed:', event.detail.effectiveType);
+ * connection.addEventListener('change', () => {
+ *   console.log('Network changed:', connection.effectiveType);
  * });
  * ```
  */
@@ -67,3 +67,35 @@ export function installNetworkInformationPolyfill(
 
     return polyfill;
 }
+
+/**
+ * Install the Network Information Api polyfill in a dedicated, shared or
+ * service worker, as `navigator.connection` of the `WorkerNavigator`
+ *
+ * Combine with `exposeNetworkInformation` (from the `bridge` entry point)
+ * to mirror the worker-hosted instance on the main thread.
+ *
+ * @param options Configuration options for the polyfill
+ * @returns The polyfill instance
+ * @throws {TypeError} If not running in a `WorkerGlobalScope`
+ *
+ * @example
+ * ```typescript
+ * // worker.ts
+ * const connection = installWorkerNetworkInformationPolyfill({
+ *   classificationTable: CLASSIFICATION_WICG,
+ * });
+ * exposeNetworkInformation(connection, self);
+ * ```
+ */
+export function installWorkerNetworkInformationPolyfill(
+    options: NetworkInformationConfig,
+): NetworkInformationLike {
+    const { WorkerGlobalScope } = globalThis as {
+        WorkerGlobalScope?: abstract new () => unknown;
+    };
+    if (!WorkerGlobalScope || !(globalThis instanceof WorkerGlobalScope)) {
+        throw new TypeError('Not running in a WorkerGlobalScope');
+    }
+    return installNetworkInformationPolyfill(options);
+}
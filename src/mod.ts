@@ -1,3 +1,9 @@
 export * from './types.ts';
-export { installNetworkInformationPolyfill } from './install.ts';
-export { createNetworkInformation } from './network-information.ts';
+export {
+    installNetworkInformationPolyfill,
+    installWorkerNetworkInformationPolyfill,
+} from './install.ts';
+export {
+    createNetworkInformation,
+    NetworkInformation,
+} from './network-information.ts';
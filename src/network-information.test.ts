@@ -1,17 +1,77 @@
-import { assertEquals, assertExists, assertInstanceOf } from '@std/assert';
+import {
+    assertEquals,
+    assertExists,
+    assertInstanceOf,
+    assertThrows,
+} from '@std/assert';
 import { assertSpyCalls, returnsNext, spy, stub } from '@std/testing/mock';
 import { FakeTime } from '@std/testing/time';
 
 import {
     _classifyConnection,
+    _classifyEntry,
+    _latencyStats,
     _median,
+    _nextProbeSize,
     _pseudoRandomHash,
+    _sampleConfidence,
+    _shapeValue,
+    _steadyStateThroughput,
     createNetworkInformation,
+    NetworkInformation,
 } from './network-information.ts';
 import CLASSIFICATION_WICG from './classifications/wicg.ts';
 import CLASSIFICATION_FIREFOX from './classifications/firefox.ts';
 import CLASSIFICATION_CHROME from './classifications/chrome.ts';
-import type { ConnectionClassification } from './types.ts';
+import OUTPUT_SHAPING_RAW from './output-shaping/raw.ts';
+import { createCloudflareBackend } from './backends/cloudflare.ts';
+import { createQueryParamBackend } from './backends/query-param.ts';
+import { createStaticFileBackend } from './backends/static.ts';
+import {
+    _weightedMedian,
+    createEwmaEstimator,
+    createMedianEstimator,
+    createWeightedMedianEstimator,
+} from './estimators.ts';
+import { _sampleFromResourceTiming } from './passive.ts';
+import { createLocalStorageEstimateStorage } from './persistence.ts';
+import {
+    createNetworkInformationMirror,
+    exposeNetworkInformation,
+} from './bridge.ts';
+import { installWorkerNetworkInformationPolyfill } from './install.ts';
+import {
+    _clientHintHeaders,
+    createClientHintsFetch,
+    createServiceWorkerClientHints,
+    postClientHints,
+    setClientHintsCookie,
+} from './client-hints.ts';
+import {
+    createServiceWorkerSampler,
+    type FetchEventLike,
+    type ServiceWorkerSampleMessage,
+} from './service-worker.ts';
+import {
+    _inferNetworkType,
+    createManualTypeProvider,
+} from './connection-type.ts';
+import { validateClassificationTable } from './validation.ts';
+import type {
+    BroadcastChannelConstructor,
+    BroadcastChannelLike,
+    ConnectionClassification,
+    DataBudgetUsage,
+    EstimateStorage,
+    MessagePortLike,
+    NetworkChangeEventDetail,
+    NetworkMeasurement,
+    PerformanceObserverConstructor,
+    PerformanceResourceTiming,
+    PersistedEstimate,
+    ServiceWorkerContainerLike,
+    StorageLike,
+} from './types.ts';
 
 const createFetchMock = (
     responses: Array<Promise<Response> | Response | Error>,
@@ -37,6 +97,77 @@ const createFetchMock = (
     return fetchMock;
 };
 
+// Fake PerformanceObserver letting tests push resource timing entries
+const createPerformanceObserverMock = () => {
+    const callbacks = new Set<
+        (list: { getEntries(): PerformanceEntry[] }) => void
+    >();
+    const PerformanceObserver: PerformanceObserverConstructor = function (
+        callback: (list: { getEntries(): PerformanceEntry[] }) => void,
+    ) {
+        return {
+            observe: () => callbacks.add(callback),
+            disconnect: () => callbacks.delete(callback),
+        };
+    } as unknown as PerformanceObserverConstructor;
+    const emit = (entries: Partial<PerformanceResourceTiming>[]) => {
+        for (const callback of callbacks) {
+            callback({ getEntries: () => entries as PerformanceEntry[] });
+        }
+    };
+    return { PerformanceObserver, emit, callbacks };
+};
+
+const createResourceEntry = (
+    name: string,
+    transferSize: number = 100_000,
+): Partial<PerformanceResourceTiming> => ({
+    name,
+    entryType: 'resource',
+    requestStart: 100,
+    responseStart: 160, // 60ms TTFB
+    responseEnd: 960, // 800ms payload
+    transferSize,
+});
+
+// In-process BroadcastChannel delivering messages synchronously
+const createBroadcastChannelMock = () => {
+    type Channel = BroadcastChannelLike & EventTarget & { name: string };
+    const channels = new Set<Channel>();
+    const BroadcastChannel = function (name: string) {
+        const target = new EventTarget();
+        const channel = Object.assign(target, {
+            name,
+            postMessage(message: unknown) {
+                for (const other of channels) {
+                    if (other === channel || other.name !== name) continue;
+                    other.dispatchEvent(
+                        new MessageEvent('message', {
+                            data: structuredClone(message),
+                        }),
+                    );
+                }
+            },
+            close() {
+                channels.delete(channel);
+            },
+        }) as Channel;
+        channels.add(channel);
+        return channel;
+    } as unknown as BroadcastChannelConstructor;
+    return { BroadcastChannel, channels };
+};
+
+const createStorageMock = (): StorageLike & { items: Map<string, string> } => {
+    const items = new Map<string, string>();
+    return {
+        items,
+        getItem: (key) => items.get(key) ?? null,
+        setItem: (key, value) => void items.set(key, value),
+        removeItem: (key) => void items.delete(key),
+    };
+};
+
 // Helper to create a test instance that doesn't auto-initialize
 const createTestInstance: typeof createNetworkInformation = (
     config,
@@ -55,6 +186,7 @@ Deno.test('createNetworkInformation - Constructor', () => {
 
     assertEquals(api.saveData, false);
     assertEquals(api.type, 'unknown');
+    assertEquals(api.downlinkMax, Infinity);
     assertEquals(api.downlink, undefined);
     assertEquals(api.uplink, undefined);
     assertEquals(api.rtt, undefined);
@@ -63,6 +195,55 @@ Deno.test('createNetworkInformation - Constructor', () => {
     api.dispose();
 });
 
+Deno.test('createNetworkInformation - Spec compliant EventTarget', () => {
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+    });
+
+    assertInstanceOf(api, EventTarget);
+    assertInstanceOf(api, NetworkInformation);
+    assertEquals(
+        Object.prototype.toString.call(api),
+        '[object NetworkInformation]',
+    );
+    assertEquals(api.onchange, null);
+
+    let received: Event | undefined;
+    let receivedThis: unknown;
+    api.onchange = function (event) {
+        received = event;
+        receivedThis = this;
+    };
+    const event = new Event('change');
+    assertEquals(api.dispatchEvent(event), true);
+    assertEquals(received, event);
+    assertEquals(receivedThis, api);
+
+    // Replacing the handler does not register it twice
+    let calls = 0;
+    api.onchange = () => calls++;
+    api.dispatchEvent(new Event('change'));
+    assertEquals(calls, 1);
+
+    api.onchange = null;
+    api.dispatchEvent(new Event('change'));
+    assertEquals(calls, 1);
+
+    api.dispose();
+});
+
+Deno.test('createNetworkInformation - Illegal constructor', () => {
+    let error: unknown;
+    try {
+        Reflect.construct(NetworkInformation, []);
+    } catch (e) {
+        error = e;
+    }
+    assertInstanceOf(error, TypeError);
+    assertThrows(() => NetworkInformation(), TypeError);
+    assertEquals(Object.getPrototypeOf(NetworkInformation), EventTarget);
+});
+
 // Test Suite - Classification Logic with Different Tables
 Deno.test('createNetworkInformation - WICG Classification Logic', () => {
     // WICG thresholds
@@ -125,6 +306,541 @@ Deno.test('NetworkInformation - Custom classification with measurements', () =>
     assertEquals(_classifyConnection(customTable, 0.8, 200), '2g');
 });
 
+Deno.test('createNetworkInformation - Classification hysteresis', () => {
+    // Without a current type thresholds are used as is
+    assertEquals(
+        _classifyConnection(CLASSIFICATION_WICG, 0.68, 100, undefined, 0.1),
+        '3g',
+    );
+    // Must drop 10% below the 700 kbps boundary to leave 4g
+    assertEquals(
+        _classifyConnection(CLASSIFICATION_WICG, 0.68, 100, '4g', 0.1),
+        '4g',
+    );
+    assertEquals(
+        _classifyConnection(CLASSIFICATION_WICG, 0.6, 100, '4g', 0.1),
+        '3g',
+    );
+    // Must rise 10% above the 700 kbps boundary to leave 3g
+    assertEquals(
+        _classifyConnection(CLASSIFICATION_WICG, 0.74, 100, '3g', 0.1),
+        '3g',
+    );
+    assertEquals(
+        _classifyConnection(CLASSIFICATION_WICG, 0.8, 100, '3g', 0.1),
+        '4g',
+    );
+    // RTT thresholds are shifted as well (270ms boundary)
+    assertEquals(
+        _classifyConnection(CLASSIFICATION_WICG, 1, 280, '4g', 0.1),
+        '4g',
+    );
+    assertEquals(
+        _classifyConnection(CLASSIFICATION_WICG, 1, 310, '4g', 0.1),
+        '2g',
+    );
+    assertEquals(
+        _classifyConnection(CLASSIFICATION_WICG, 1, 260, '2g', 0.1),
+        '2g',
+    );
+    assertEquals(
+        _classifyConnection(CLASSIFICATION_WICG, 1, 240, '2g', 0.1),
+        '4g',
+    );
+    // Per classification margins override the global one
+    const table: ConnectionClassification[] = CLASSIFICATION_WICG.map((
+        classification,
+    ) => ({ ...classification, hysteresis: 0.2 }));
+    assertEquals(_classifyConnection(table, 0.6, 100, '4g', 0.1), '4g');
+});
+
+Deno.test('createNetworkInformation - Classification jitter thresholds', () => {
+    const table: ConnectionClassification[] = [
+        { type: 'slow-2g', maxDownlink: 0.05, minRtt: 1400 },
+        { type: '2g', maxDownlink: 0.07, minRtt: 270 },
+        { type: '3g', maxDownlink: 0.7, maxJitter: 100 },
+        { type: '4g', maxJitter: 30 },
+    ];
+    // Unknown jitter is ignored
+    assertEquals(_classifyConnection(table, 10, 50), '4g');
+    assertEquals(
+        _classifyConnection(table, 10, 50, undefined, 0, { jitter: 30 }),
+        '4g',
+    );
+    // Too much jitter for 4g, then for 3g
+    assertEquals(
+        _classifyConnection(table, 10, 50, undefined, 0, { jitter: 40 }),
+        '3g',
+    );
+    assertEquals(
+        _classifyConnection(table, 10, 50, undefined, 0, { jitter: 150 }),
+        '2g',
+    );
+    // Easier to stay in the current type
+    assertEquals(
+        _classifyConnection(table, 10, 50, '4g', 0.5, { jitter: 40 }),
+        '4g',
+    );
+});
+
+Deno.test('createNetworkInformation - Classification loaded RTT thresholds', () => {
+    const table: ConnectionClassification[] = [
+        { type: 'slow-2g', maxDownlink: 0.05, minRtt: 1400 },
+        { type: '2g', maxDownlink: 0.07, minRtt: 270, minLoadedRtt: 1000 },
+        { type: '3g', maxDownlink: 0.7, minLoadedRtt: 300 },
+        { type: '4g' },
+    ];
+    // Unknown loaded RTT is ignored
+    assertEquals(_classifyConnection(table, 10, 50), '4g');
+    assertEquals(
+        _classifyConnection(table, 10, 50, undefined, 0, { loadedRtt: 250 }),
+        '4g',
+    );
+    // Bufferbloat
+    assertEquals(
+        _classifyConnection(table, 10, 50, undefined, 0, { loadedRtt: 400 }),
+        '3g',
+    );
+    assertEquals(
+        _classifyConnection(table, 10, 50, undefined, 0, { loadedRtt: 2000 }),
+        '2g',
+    );
+});
+
+Deno.test('createNetworkInformation - Classification rules', () => {
+    const table: ConnectionClassification[] = [
+        { type: 'slow-2g', maxDownlink: 0.05, minRtt: 1400 },
+        {
+            type: '2g',
+            customType: 'satellite',
+            rule: {
+                all: [
+                    { metric: 'rtt', above: 500 },
+                    { metric: 'downlink', above: 5 },
+                ],
+            },
+        },
+        { type: '2g', maxDownlink: 0.07, minRtt: 270 },
+        { type: '3g', maxDownlink: 0.7 },
+        {
+            type: '4g',
+            rule: {
+                any: [
+                    { metric: 'uplink', below: 5 },
+                    { metric: 'jitter', above: 20 },
+                ],
+            },
+        },
+        { type: '4g', customType: '5g' },
+    ];
+    // High bandwidth with high latency
+    assertEquals(_classifyEntry(table, { downlink: 20, rtt: 600 }), table[1]);
+    // High latency alone is 2g
+    assertEquals(_classifyEntry(table, { downlink: 1, rtt: 600 }), table[2]);
+    // Any of uplink or jitter keeps a fast connection out of 5g
+    assertEquals(
+        _classifyEntry(table, { downlink: 50, rtt: 20, uplink: 2 }),
+        table[4],
+    );
+    assertEquals(
+        _classifyEntry(table, { downlink: 50, rtt: 20, jitter: 30 }),
+        table[4],
+    );
+    // Unmeasured metrics never match
+    assertEquals(_classifyEntry(table, { downlink: 50, rtt: 20 }), table[5]);
+    assertEquals(
+        _classifyEntry(table, { downlink: 50, rtt: 20, uplink: 20, jitter: 5 }),
+        table[5],
+    );
+    // Hysteresis applies to rules: easier to stay in the current entry
+    assertEquals(
+        _classifyEntry(table, { downlink: 20, rtt: 460 }, table[1], 0.1),
+        table[1],
+    );
+    assertEquals(
+        _classifyEntry(table, { downlink: 20, rtt: 460 }, undefined, 0.1),
+        table[2],
+    );
+});
+
+Deno.test('createNetworkInformation - Custom types', () => {
+    const storage = createStorageMock();
+    const estimateStorage = createLocalStorageEstimateStorage({ storage });
+    estimateStorage.save({ downlink: 20, rtt: 600, timestamp: Date.now() });
+
+    const api = createTestInstance({
+        classificationTable: [
+            {
+                type: '2g',
+                customType: 'satellite',
+                rule: {
+                    all: [
+                        { metric: 'rtt', above: 500 },
+                        { metric: 'downlink', above: 5 },
+                    ],
+                },
+            },
+            ...CLASSIFICATION_WICG,
+        ],
+        estimateStorage,
+    });
+
+    assertEquals(api.effectiveType, '2g');
+    assertEquals(api.customType, 'satellite');
+    assertEquals(api.getConnectionInfo().customType, 'satellite');
+
+    api.dispose();
+});
+
+Deno.test('createNetworkInformation - Classification table must end with a catch-all', () => {
+    assertThrows(
+        () => createTestInstance({ classificationTable: [] }),
+        TypeError,
+        'empty',
+    );
+    assertThrows(
+        () =>
+            createTestInstance({
+                classificationTable: [
+                    { type: '3g', maxDownlink: 0.7 },
+                    { type: '4g', rule: { metric: 'rtt', below: 100 } },
+                ],
+            }),
+        TypeError,
+        'catch-all',
+    );
+    // Jitter limits are allowed on the last entry
+    createTestInstance({
+        classificationTable: [
+            { type: '3g', maxDownlink: 0.7 },
+            { type: '4g', maxJitter: 30 },
+        ],
+    }).dispose();
+});
+
+Deno.test('Classification table validation', () => {
+    // Built-in tables are valid
+    assertEquals(validateClassificationTable(CLASSIFICATION_WICG), []);
+    assertEquals(validateClassificationTable(CLASSIFICATION_FIREFOX), []);
+    assertEquals(validateClassificationTable(CLASSIFICATION_CHROME), []);
+
+    assertEquals(
+        validateClassificationTable([]).map(({ code }) => code),
+        ['empty-table'],
+    );
+    const diagnostics = validateClassificationTable([
+        { type: 'slow-2g', maxDownlink: 0.05, minRtt: 1400, maxJitter: 200 },
+        { type: '3g', maxDownlink: 0.7, minRtt: 1500 },
+        { type: '2g', maxDownlink: 0.07 },
+        { type: '3g', maxDownlink: 1, maxJitter: 300 },
+        { type: '4g' },
+        { type: '4g', customType: '5g', minRtt: 20 },
+    ]);
+    assertEquals(
+        diagnostics.map(({ code, severity, index }) => ({
+            code,
+            severity,
+            index,
+        })),
+        [
+            { code: 'non-monotonic-threshold', severity: 'error', index: 1 },
+            { code: 'unreachable-entry', severity: 'error', index: 2 },
+            { code: 'duplicate-type', severity: 'warning', index: 3 },
+            { code: 'non-monotonic-threshold', severity: 'error', index: 3 },
+            { code: 'unreachable-entry', severity: 'error', index: 5 },
+            { code: 'missing-catch-all', severity: 'error', index: 5 },
+        ],
+    );
+    assertEquals(
+        diagnostics[0].message,
+        "The minRtt of entry 1 ('3g') (1500) should be below the one of entry 0 (1400)",
+    );
+});
+
+Deno.test('createNetworkInformation - Invalid classification tables are rejected', () => {
+    assertThrows(
+        () =>
+            createTestInstance({
+                classificationTable: [
+                    { type: '3g', maxDownlink: 0.7 },
+                    { type: '2g', maxDownlink: 0.07 },
+                    { type: '4g' },
+                ],
+            }),
+        TypeError,
+        "Invalid classification table: The entry 1 ('2g') is unreachable",
+    );
+    // Warnings are tolerated
+    createTestInstance({
+        classificationTable: [
+            { type: '2g', maxDownlink: 0.05 },
+            { type: '2g', minRtt: 270 },
+            { type: '4g' },
+        ],
+    }).dispose();
+});
+
+Deno.test('createNetworkInformation - Loaded latency during downloads', async () => {
+    const chunk = new Uint8Array(25_000);
+    let chunks = 0;
+    const body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            await new Promise((resolve) => setTimeout(resolve, 30));
+            controller.enqueue(chunk);
+            if (++chunks === 4) controller.close();
+        },
+    });
+    const ping = () =>
+        new Response('', { headers: { 'server-timing': 'dur=10' } });
+    const fetchMock = createFetchMock([
+        ping(),
+        new Response(body, { headers: { 'server-timing': 'dur=10' } }),
+        ...Array.from({ length: 20 }, ping),
+    ]);
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        measurementCount: 1,
+        baseMeasurementSize: 100_000,
+        loadedLatency: true,
+        loadedLatencyInterval: 10,
+        outputShaping: OUTPUT_SHAPING_RAW,
+    }, { fetch: fetchMock });
+
+    let measurement: NetworkMeasurement | undefined;
+    api.addEventListener('measurement', (event) => {
+        measurement = event.detail as NetworkMeasurement;
+    });
+    await api.measure();
+
+    // Latency probes were sent while the download was in progress
+    const loadedCalls = fetchMock.calls.slice(2);
+    assertEquals(loadedCalls.length > 0, true);
+    assertEquals(
+        new Set(loadedCalls.map((call) => String(call.args[0]))).size,
+        loadedCalls.length,
+    );
+    assertExists(measurement?.loadedRtt);
+    assertEquals(api.getConnectionInfo().loadedRtt, measurement.loadedRtt);
+
+    api.dispose();
+});
+
+Deno.test('Output shaping - Rounding and caps', () => {
+    assertEquals(_shapeValue(47.2, 25, 3_000), 50);
+    assertEquals(_shapeValue(12, 25, 3_000), 0);
+    assertEquals(_shapeValue(4_000, 25, 3_000), 3_000);
+    // 25 kbps steps, without floating point residues
+    assertEquals(_shapeValue(0.0812, 0.025, 10), 0.075);
+    assertEquals(_shapeValue(0.7, 0.025, 10), 0.7);
+    assertEquals(_shapeValue(54.3, 0.025, 10), 10);
+    // Raw
+    assertEquals(_shapeValue(0.0812), 0.0812);
+});
+
+Deno.test('createNetworkInformation - Exposed values are shaped', () => {
+    const persisted: PersistedEstimate = {
+        downlink: 54.321,
+        rtt: 61.7,
+        uplink: 0.4321,
+        timestamp: Date.now(),
+    };
+    const api = createNetworkInformation({
+        classificationTable: CLASSIFICATION_WICG,
+        estimateStorage: { load: () => persisted, save: () => {} },
+        autostart: false,
+    });
+    // Spec rounding and caps by default
+    assertEquals(api.downlink, 10);
+    assertEquals(api.uplink, 0.425);
+    assertEquals(api.rtt, 50);
+    const info = api.getConnectionInfo();
+    assertEquals([info.downlink, info.uplink, info.rtt], [10, 0.425, 50]);
+    api.dispose();
+
+    const raw = createNetworkInformation({
+        classificationTable: CLASSIFICATION_WICG,
+        estimateStorage: { load: () => persisted, save: () => {} },
+        outputShaping: OUTPUT_SHAPING_RAW,
+        autostart: false,
+    });
+    assertEquals([raw.downlink, raw.rtt], [54.321, 61.7]);
+    raw.dispose();
+
+    // Noise is added before rounding, the same for every read
+    using _random = stub(Math, 'random', () => 0.75);
+    const noisy = createNetworkInformation({
+        classificationTable: CLASSIFICATION_WICG,
+        estimateStorage: { load: () => persisted, save: () => {} },
+        outputNoise: 0.2,
+        autostart: false,
+    });
+    // 61.7ms * 1.1
+    assertEquals(noisy.rtt, 75);
+    assertEquals(noisy.rtt, 75);
+    noisy.dispose();
+});
+
+Deno.test('Confidence from sample count and variance', () => {
+    const sample = { downlink: 2, rtt: 100 };
+    assertEquals(_sampleConfidence([]), 0);
+    assertEquals(_sampleConfidence([sample]), 1 / 3);
+    assertEquals(_sampleConfidence(Array(6).fill(sample)), 0.75);
+    // Spread samples: downlinks 1 and 3 vary by 50%
+    assertEquals(
+        _sampleConfidence([{ downlink: 1, rtt: 100 }, {
+            downlink: 3,
+            rtt: 100,
+        }]),
+        0.5 / 1.5,
+    );
+});
+
+Deno.test('createNetworkInformation - Confidence ages and gates changes', async () => {
+    using fakeTime = new FakeTime();
+    const storage = createStorageMock();
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        measurementCount: 1,
+        minConfidence: 0.5,
+        confidenceHalfLife: 60_000,
+        changeEventDetail: true,
+        estimateStorage: createLocalStorageEstimateStorage({ storage }),
+        autostart: false,
+    }, { fetch: createFetchMock(createProbeResponses(2)) });
+    const details: NetworkChangeEventDetail[] = [];
+    api.addEventListener(
+        'change',
+        (event: CustomEvent<NetworkChangeEventDetail>) => {
+            details.push(event.detail);
+        },
+    );
+    assertEquals(api.getConnectionInfo().confidence, undefined);
+
+    const measured = api.measure();
+    await advanceTime(fakeTime, 1_000);
+    await measured;
+
+    // A single sample is not enough: reported as preliminary, not persisted
+    assertEquals(api.getConnectionInfo().confidence, 0.33);
+    assertEquals(details.at(-1)?.confidence, 0.33);
+    assertEquals(details.at(-1)?.preliminary, true);
+    assertEquals(
+        storage.getItem('network-information-api-polyfill:estimate'),
+        null,
+    );
+
+    // Halved every half-life (the sample is already a bit older)
+    fakeTime.tick(60_000);
+    assertEquals(api.getConnectionInfo().confidence, 0.16);
+
+    api.dispose();
+});
+
+Deno.test('createNetworkInformation - Low confidence holds the effectiveType', () => {
+    const { PerformanceObserver, emit } = createPerformanceObserverMock();
+
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        passiveMeasurement: true,
+        passiveMinSamples: 1,
+        estimator: createMedianEstimator({ maxSamples: 1 }),
+        minConfidence: 0.9,
+        changeEventDetail: true,
+    }, { PerformanceObserver });
+
+    const details: NetworkChangeEventDetail[] = [];
+    api.addEventListener(
+        'change',
+        (event: CustomEvent<NetworkChangeEventDetail>) => {
+            details.push(event.detail);
+        },
+    );
+
+    emit([createResourceEntry('https://example.com/fast.js')]); // 1 Mbps
+    emit([createResourceEntry('https://example.com/slow.js', 50_000)]); // 0.5 Mbps
+
+    // Values move, the type stays until the confidence is reached
+    assertEquals(details.map((detail) => detail.effectiveType), ['4g']);
+    assertEquals(details[0].preliminary, true);
+    assertEquals(api.downlink, 0.5);
+    assertEquals(api.effectiveType, '4g');
+
+    api.dispose();
+});
+
+Deno.test('Latency statistics', () => {
+    assertEquals(_latencyStats([40, 60, 50, 200, 45], 0), {
+        rttMin: 40,
+        rttMedian: 50,
+        rttP90: 200,
+        // (20 + 10 + 150 + 155) / 4
+        jitter: 83.75,
+        failedRatio: 0,
+    });
+    assertEquals(_latencyStats([30], 3), {
+        rttMin: 30,
+        rttMedian: 30,
+        rttP90: 30,
+        jitter: 0,
+        failedRatio: 0.75,
+    });
+});
+
+Deno.test('createNetworkInformation - Multi-ping latency phase', async () => {
+    const fetchMock = createFetchMock([
+        new Response('', { headers: { 'server-timing': 'dur=10' } }),
+        new Error('Network error'),
+        new Response('', { headers: { 'server-timing': 'dur=10' } }),
+        new Response('', { headers: { 'server-timing': 'dur=10' } }),
+        new Response('x'.repeat(1_000), {
+            headers: { 'server-timing': 'dur=10' },
+        }),
+    ]);
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        measurementCount: 1,
+        latencyProbeCount: 4,
+        changeEventDetail: true,
+    }, { fetch: fetchMock });
+
+    let measurement: NetworkMeasurement | undefined;
+    let detail: NetworkChangeEventDetail | undefined;
+    api.addEventListener('measurement', (event) => {
+        measurement = event.detail as NetworkMeasurement;
+    });
+    api.addEventListener(
+        'change',
+        (event: CustomEvent<NetworkChangeEventDetail>) => {
+            detail = event.detail;
+        },
+    );
+
+    await api.measure();
+
+    assertSpyCalls(fetchMock, 5);
+    // Each ping has its own URL
+    const pingUrls = fetchMock.calls.slice(0, 4).map(({ args }) =>
+        String(args[0])
+    );
+    assertEquals(new Set(pingUrls).size, 4);
+    assertExists(measurement?.latency);
+    assertEquals(measurement.latency.failedRatio, 0.25);
+    assertEquals(measurement.rtt, measurement.latency.rttMedian);
+    // Exposed RTTs are shaped like the RTT
+    const { rttMin, rttMedian, rttP90, jitter } = measurement.latency;
+    const shaped = {
+        rttMin: _shapeValue(rttMin, 25, 3_000),
+        rttMedian: _shapeValue(rttMedian, 25, 3_000),
+        rttP90: _shapeValue(rttP90, 25, 3_000),
+        jitter: _shapeValue(jitter, 25, 3_000),
+        failedRatio: 0.25,
+    };
+    assertEquals(api.getConnectionInfo().latency, shaped);
+    assertEquals(detail?.latency, shaped);
+
+    api.dispose();
+});
+
 Deno.test('NetworkInformation - Median calculation', () => {
     assertEquals(_median([1, 3, 5]), 3);
     assertEquals(_median([1, 2, 4, 5]), 3);
@@ -132,6 +848,265 @@ Deno.test('NetworkInformation - Median calculation', () => {
     assertEquals(_median([10, 20]), 15);
 });
 
+const createSample = (
+    timestamp: number,
+    downlink: number,
+    rtt: number,
+): NetworkMeasurement => ({
+    rtt,
+    downlink,
+    measurementSize: 100_000,
+    duration: 100,
+    realDuration: 110,
+    timestamp,
+});
+
+Deno.test('Estimators - Weighted median', () => {
+    assertEquals(
+        _weightedMedian([
+            { value: 1, weight: 1 },
+            { value: 2, weight: 1 },
+            { value: 3, weight: 1 },
+        ]),
+        2,
+    );
+    assertEquals(
+        _weightedMedian([
+            { value: 3, weight: 5 },
+            { value: 1, weight: 1 },
+            { value: 2, weight: 1 },
+        ]),
+        3,
+    );
+});
+
+Deno.test('Estimators - Median sliding window', () => {
+    const estimator = createMedianEstimator({ maxSamples: 3, maxAge: 10_000 });
+    assertEquals(estimator.estimate(0), null);
+
+    estimator.add(createSample(0, 1, 100));
+    estimator.add(createSample(1_000, 2, 200));
+    estimator.add(createSample(2_000, 3, 300));
+    estimator.add(createSample(3_000, 4, 400));
+
+    assertEquals(estimator.getSamples(3_000).length, 3);
+    assertEquals(estimator.estimate(3_000), {
+        downlink: 3,
+        rtt: 300,
+        uplink: undefined,
+    });
+
+    // Samples older than maxAge are dropped
+    assertEquals(estimator.estimate(12_500), {
+        downlink: 4,
+        rtt: 400,
+        uplink: undefined,
+    });
+
+    estimator.clear();
+    assertEquals(estimator.getSamples(3_000), []);
+});
+
+Deno.test('Estimators - Weighted median decays old samples', () => {
+    const estimator = createWeightedMedianEstimator({ halfLife: 1_000 });
+
+    // Older samples agree, one recent noisy sample does not flip the estimate
+    estimator.add(createSample(0, 10, 50));
+    estimator.add(createSample(0, 10, 50));
+    estimator.add(createSample(0, 10, 50));
+    estimator.add(createSample(1_000, 0.5, 400));
+    assertEquals(estimator.estimate(1_000)?.downlink, 10);
+
+    // But a consistent change eventually wins
+    estimator.add(createSample(5_000, 0.5, 400));
+    assertEquals(estimator.estimate(5_000)?.downlink, 0.5);
+    assertEquals(estimator.estimate(5_000)?.rtt, 400);
+});
+
+Deno.test('Estimators - EWMA', () => {
+    const estimator = createEwmaEstimator({ alpha: 0.5 });
+
+    estimator.add({ ...createSample(0, 1, 100), uplink: 1 });
+    estimator.add(createSample(1_000, 3, 300));
+
+    assertEquals(estimator.estimate(1_000), {
+        downlink: 2,
+        rtt: 200,
+        uplink: 1,
+    });
+});
+
+Deno.test('NetworkInformation - Next probe size', () => {
+    // 8 Mbps downloads 1 MB per second
+    assertEquals(_nextProbeSize(8, 1_000, 10_000, 10_000_000), 1_000_000);
+    assertEquals(_nextProbeSize(8, 500, 10_000, 10_000_000), 500_000);
+    // Bounded on slow and fast links
+    assertEquals(_nextProbeSize(0.05, 1_000, 10_000, 10_000_000), 10_000);
+    assertEquals(_nextProbeSize(1_000, 1_000, 10_000, 10_000_000), 10_000_000);
+});
+
+Deno.test('Steady-state throughput of a streamed download', () => {
+    const timeline = [
+        { time: 100, bytes: 0 },
+        // Slow-start
+        { time: 300, bytes: 10_000 },
+        { time: 400, bytes: 20_000 },
+        { time: 500, bytes: 70_000 },
+        { time: 600, bytes: 120_000 },
+    ];
+    // 100 kB in 200ms once warmed up
+    assertEquals(_steadyStateThroughput(timeline, 0.1), 4);
+    // Whole payload from the headers on
+    assertEquals(_steadyStateThroughput(timeline, 0), 1.92);
+    // Too coarse to tell the warm-up apart
+    assertEquals(
+        _steadyStateThroughput([{ time: 100, bytes: 0 }, {
+            time: 200,
+            bytes: 1_000,
+        }], 0.2),
+        null,
+    );
+    assertEquals(_steadyStateThroughput([{ time: 100, bytes: 0 }], 0.2), null);
+});
+
+Deno.test('createNetworkInformation - Streamed download timeline', async () => {
+    const chunk = new Uint8Array(25_000);
+    let chunks = 0;
+    const body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            await new Promise((resolve) => setTimeout(resolve, 20));
+            controller.enqueue(chunk);
+            if (++chunks === 4) controller.close();
+        },
+    });
+    const fetchMock = createFetchMock([
+        new Response('', { headers: { 'server-timing': 'dur=10' } }),
+        new Response(body, { headers: { 'server-timing': 'dur=10' } }),
+    ]);
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        measurementCount: 1,
+        baseMeasurementSize: 100_000,
+    }, { fetch: fetchMock });
+
+    const measurements: NetworkMeasurement[] = [];
+    api.addEventListener('measurement', (event) => {
+        measurements.push(event.detail as NetworkMeasurement);
+    });
+    await api.measure();
+
+    const { timeline, downlink } = measurements[0];
+    assertExists(timeline);
+    assertEquals(
+        timeline.map((p) => p.bytes),
+        [0, 25_000, 50_000, 75_000, 100_000],
+    );
+    // Warm-up discarded, header overhead added
+    assertEquals(
+        downlink,
+        (_steadyStateThroughput(timeline, 0.2) ?? NaN) * 1.005,
+    );
+
+    api.dispose();
+});
+
+Deno.test('createNetworkInformation - Adaptive sizing stops once converged', async () => {
+    // Server time covers the whole fetch, network time is always 1ms
+    const probe = (bytes: number) =>
+        new Response('x'.repeat(bytes), {
+            headers: { 'server-timing': 'dur=1000' },
+        });
+    const fetchMock = createFetchMock([
+        probe(0),
+        probe(20_000),
+        probe(0),
+        probe(50_000),
+        probe(0),
+        probe(50_000),
+    ]);
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        adaptiveSizing: true,
+        baseMeasurementSize: 20_000,
+        maxMeasurementSize: 50_000,
+    }, { fetch: fetchMock });
+
+    await api.measure();
+
+    // Grown to the max size, then stopped when two probes agree
+    assertSpyCalls(fetchMock, 6);
+    const sizes = [1, 3, 5].map((call) =>
+        new URL(String(fetchMock.calls[call].args[0])).searchParams.get(
+            'bytes',
+        )
+    );
+    assertEquals(sizes, ['20000', '50000', '50000']);
+    assertEquals(api.getMeasurementHistory().length, 3);
+
+    api.dispose();
+});
+
+Deno.test('createNetworkInformation - Adaptive cycles are estimated alone', async () => {
+    // Server time covers the whole fetch, network time is always 1ms
+    const probe = (bytes: number) =>
+        new Response('x'.repeat(bytes), {
+            headers: { 'server-timing': 'dur=1000' },
+        });
+    const fetchMock = createFetchMock([
+        probe(0),
+        probe(20_000),
+        probe(0),
+        probe(50_000),
+        probe(0),
+        probe(50_000),
+    ]);
+    const serviceWorker = new EventTarget();
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        outputShaping: OUTPUT_SHAPING_RAW,
+        adaptiveSizing: true,
+        baseMeasurementSize: 20_000,
+        maxMeasurementSize: 50_000,
+        serviceWorkerSampling: true,
+        passiveMinSamples: 2,
+    }, {
+        fetch: fetchMock,
+        serviceWorker: serviceWorker as unknown as ServiceWorkerContainerLike,
+    });
+
+    // A slower sample of the page's traffic, not enough to skip the probes
+    serviceWorker.dispatchEvent(
+        new MessageEvent('message', {
+            data: {
+                kind: 'network-information:sample',
+                url: 'https://example.com/a.js',
+                sample: _sampleFromResourceTiming(
+                    createResourceEntry(
+                        'https://example.com/a.js',
+                    ) as PerformanceResourceTiming,
+                    10,
+                    32_000,
+                ),
+            },
+        }),
+    );
+    await api.measure();
+
+    // The cycle stopped after 3 of 6 probes, the sample is kept but only
+    // the cycle is estimated
+    assertSpyCalls(fetchMock, 6);
+    const history = api.getMeasurementHistory();
+    const active = history.filter(({ source }) => source === 'active');
+    assertEquals(history.length, 4);
+    assertEquals(
+        active.map(({ measurementSize }) => measurementSize),
+        [20_000, 50_000, 50_000],
+    );
+    assertEquals(api.downlink, active[2].downlink);
+
+    api.dispose();
+});
+
 Deno.test('NetworkInformation - Pseudo random hash', () => {
     const hash1 = _pseudoRandomHash(5);
     const hash2 = _pseudoRandomHash(5);
@@ -215,24 +1190,160 @@ Deno.test('createNetworkInformation - Periodic measurements', async () => {
     api.dispose();
 });
 
-Deno.test('createNetworkInformation - Error handling in measurement', async () => {
-    // Mock fetch to throw error
-    const fetchMock = createFetchMock([new Error('Network error')]);
-
-    const api = createTestInstance({
-        classificationTable: CLASSIFICATION_WICG,
-        measurementCount: 1,
-    }, { fetch: fetchMock });
+const createProbeResponses = (count: number) =>
+    Array.from(
+        { length: count },
+        () => new Response('test', { headers: { 'server-timing': 'dur=10' } }),
+    );
 
-    // Should not throw, should handle error silently
-    await api.measure();
+// Advance fake time in small steps, letting each cycle chain its probes
+const advanceTime = async (fakeTime: FakeTime, ms: number) => {
+    for (let elapsed = 0; elapsed < ms; elapsed += 100) {
+        await fakeTime.tickAsync(Math.min(100, ms - elapsed));
+    }
+    await fakeTime.tickAsync(0);
+};
 
-    // Should complete gracefully
-    api.dispose();
-});
+Deno.test('createNetworkInformation - Periodic measurements pause while hidden', async () => {
+    using fakeTime = new FakeTime();
 
-Deno.test('createNetworkInformation - Dispose cleanup', () => {
-    const api = createTestInstance({
+    const fetchMock = createFetchMock(createProbeResponses(6));
+    const document = Object.assign(new EventTarget(), {
+        visibilityState: 'visible',
+    });
+    const api = createNetworkInformation({
+        classificationTable: CLASSIFICATION_WICG,
+        periodicMeasurement: true,
+        measurementInterval: 5_000,
+        measurementBackoff: 1,
+        measurementCount: 1,
+    }, { fetch: fetchMock, document });
+
+    await advanceTime(fakeTime, 100);
+    assertSpyCalls(fetchMock, 2);
+
+    document.visibilityState = 'hidden';
+    document.dispatchEvent(new Event('visibilitychange'));
+    await advanceTime(fakeTime, 20_000);
+    assertSpyCalls(fetchMock, 2);
+
+    // Back to visible with a stale result measures right away
+    document.visibilityState = 'visible';
+    document.dispatchEvent(new Event('visibilitychange'));
+    await advanceTime(fakeTime, 100);
+    assertSpyCalls(fetchMock, 4);
+
+    await advanceTime(fakeTime, 5_100);
+    assertSpyCalls(fetchMock, 6);
+
+    api.dispose();
+});
+
+Deno.test('createNetworkInformation - Dispose during the first measurement stops the instance', async () => {
+    using fakeTime = new FakeTime();
+
+    const fetchMock = createFetchMock(createProbeResponses(10));
+    const api = createNetworkInformation({
+        classificationTable: CLASSIFICATION_WICG,
+        periodicMeasurement: true,
+        measurementInterval: 50,
+        measurementCount: 1,
+    }, { fetch: fetchMock });
+
+    await fakeTime.tickAsync(0);
+    assertSpyCalls(fetchMock, 1);
+
+    // The aborted cycle unwinds without scheduling more
+    api.dispose();
+    await fakeTime.tickAsync(0);
+    const calls = fetchMock.calls.length;
+    await advanceTime(fakeTime, 1_000);
+    assertSpyCalls(fetchMock, calls);
+});
+
+Deno.test('createNetworkInformation - Periodic measurements back off while stable', async () => {
+    using fakeTime = new FakeTime();
+
+    const fetchMock = createFetchMock([
+        ...createProbeResponses(4),
+        new Promise<Response>(() => {}), // Latency timeout, slower type
+        ...createProbeResponses(2),
+    ]);
+    const api = createNetworkInformation({
+        classificationTable: CLASSIFICATION_WICG,
+        periodicMeasurement: true,
+        measurementInterval: 5_000,
+        minMeasurementInterval: 1_000,
+        maxMeasurementInterval: 20_000,
+        measurementCount: 1,
+        requestTimeout: 1_500,
+    }, { fetch: fetchMock });
+
+    await advanceTime(fakeTime, 100);
+    assertSpyCalls(fetchMock, 2);
+    await advanceTime(fakeTime, 5_100);
+    assertSpyCalls(fetchMock, 4);
+    assertEquals(api.effectiveType, '4g');
+
+    // Stable result doubles the interval
+    await advanceTime(fakeTime, 9_800);
+    assertSpyCalls(fetchMock, 4);
+    await advanceTime(fakeTime, 200);
+    assertSpyCalls(fetchMock, 5);
+
+    // A change accelerates
+    await advanceTime(fakeTime, 1_500);
+    assertEquals(api.effectiveType, 'slow-2g');
+    await advanceTime(fakeTime, 1_200);
+    assertSpyCalls(fetchMock, 7);
+
+    api.dispose();
+});
+
+Deno.test('createNetworkInformation - Periodic measurements slow down on low battery', async () => {
+    using fakeTime = new FakeTime();
+
+    const fetchMock = createFetchMock(createProbeResponses(4));
+    const battery = Object.assign(new EventTarget(), {
+        level: 0.1,
+        charging: false,
+    });
+    const api = createNetworkInformation({
+        classificationTable: CLASSIFICATION_WICG,
+        periodicMeasurement: true,
+        measurementInterval: 5_000,
+        maxMeasurementInterval: 60_000,
+        measurementCount: 1,
+    }, { fetch: fetchMock, getBattery: () => Promise.resolve(battery) });
+
+    await advanceTime(fakeTime, 100);
+    assertSpyCalls(fetchMock, 2);
+    await advanceTime(fakeTime, 5_100);
+    assertSpyCalls(fetchMock, 2);
+    await advanceTime(fakeTime, 55_000);
+    assertSpyCalls(fetchMock, 4);
+
+    api.dispose();
+});
+
+Deno.test('createNetworkInformation - Error handling in measurement', async () => {
+    // Mock fetch to throw error
+    const fetchMock = createFetchMock([new Error('Network error')]);
+
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        measurementCount: 1,
+    }, { fetch: fetchMock });
+
+    // Should not throw, should handle error silently
+    await api.measure();
+
+    // Should complete gracefully
+    api.dispose();
+});
+
+Deno.test('createNetworkInformation - Dispose cleanup', () => {
+    const api = createTestInstance({
         classificationTable: CLASSIFICATION_WICG,
         periodicMeasurement: true,
     });
@@ -268,6 +1379,1351 @@ Deno.test('createNetworkInformation - Event listener management', async () => {
     api.dispose();
 });
 
+Deno.test('Backends - Cloudflare URL shape', () => {
+    const backend = createCloudflareBackend({
+        origin: 'https://speed.example.com',
+    });
+
+    assertEquals(
+        backend.createUrl({ uid: 'abcde', bytes: 100_000, index: 1 }),
+        'https://speed.example.com/__down?measId=abcde&bytes=100000&i=1',
+    );
+    assertEquals(backend.getPayloadSize(100_000), 100_000);
+    assertEquals(
+        backend.getServerTime(
+            new Response('', {
+                headers: { 'server-timing': 'cfRequestDuration;dur=12.5' },
+            }),
+        ),
+        12.5,
+    );
+    assertEquals(backend.getServerTime(new Response('')), null);
+});
+
+Deno.test('Backends - Query param URL shape', () => {
+    const backend = createQueryParamBackend({
+        url: 'https://cdn.example.com/probe?token=x',
+        bytesParam: 'size',
+        uidParam: 'uid',
+    });
+
+    assertEquals(
+        backend.createUrl({ uid: 'abcde', bytes: 2_000, index: 0 }),
+        'https://cdn.example.com/probe?token=x&size=2000&uid=abcde-0',
+    );
+    assertEquals(backend.getPayloadSize(2_000), 2_000);
+});
+
+Deno.test('Backends - Static files pick the closest size', () => {
+    const backend = createStaticFileBackend({
+        origin: 'https://static.example.com',
+        files: [
+            { path: '/probe-1m.bin', bytes: 1_000_000 },
+            { path: '/probe-1k.bin', bytes: 1_000 },
+            { path: '/probe-100k.bin', bytes: 100_000 },
+        ],
+    });
+
+    assertEquals(
+        backend.createUrl({ uid: 'abcde', bytes: 0, index: 0 }),
+        'https://static.example.com/probe-1k.bin?measId=abcde-0',
+    );
+    assertEquals(
+        backend.createUrl({ uid: 'abcde', bytes: 200_000, index: 1 }),
+        'https://static.example.com/probe-1m.bin?measId=abcde-1',
+    );
+    assertEquals(backend.getPayloadSize(0), 0);
+    assertEquals(backend.getPayloadSize(100_000), 100_000);
+    assertEquals(backend.getPayloadSize(5_000_000), 1_000_000);
+});
+
+Deno.test('createNetworkInformation - Custom backend', async () => {
+    const fetchMock = createFetchMock([
+        new Response('', { headers: { 'server-timing': 'dur=10' } }),
+        new Response('x'.repeat(1_000), {
+            headers: { 'server-timing': 'dur=10' },
+        }),
+    ]);
+
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        measurementCount: 1,
+        backend: createStaticFileBackend({
+            origin: 'https://static.example.com',
+            files: [{ path: '/probe-1k.bin', bytes: 1_000 }],
+        }),
+    }, { fetch: fetchMock });
+
+    let measurementSize: number | undefined;
+    api.addEventListener('measurement', (event) => {
+        measurementSize = (event.detail as NetworkMeasurement).measurementSize;
+    });
+
+    await api.measure();
+
+    assertSpyCalls(fetchMock, 2);
+    assertEquals(
+        String(fetchMock.calls[1].args[0]).startsWith(
+            'https://static.example.com/probe-1k.bin',
+        ),
+        true,
+    );
+    assertEquals(measurementSize, 1_000);
+    assertExists(api.downlink);
+
+    api.dispose();
+});
+
+Deno.test('createNetworkInformation - Upload measurement', async () => {
+    const fetchMock = createFetchMock([
+        new Response('', { headers: { 'server-timing': 'dur=10' } }),
+        new Response('x'.repeat(1_000), {
+            headers: { 'server-timing': 'dur=10' },
+        }),
+        new Response('', { headers: { 'server-timing': 'dur=10' } }),
+    ]);
+
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        measurementCount: 1,
+        uploadMeasurement: true,
+        baseUploadSize: 1_000,
+        changeEventDetail: true,
+        outputShaping: OUTPUT_SHAPING_RAW,
+    }, { fetch: fetchMock });
+
+    let measurement: NetworkMeasurement | undefined;
+    let detail: NetworkChangeEventDetail | undefined;
+    api.addEventListener('measurement', (event) => {
+        measurement = event.detail as NetworkMeasurement;
+    });
+    api.addEventListener(
+        'change',
+        (event: CustomEvent<NetworkChangeEventDetail>) => {
+            detail = event.detail;
+        },
+    );
+
+    await api.measure();
+
+    assertSpyCalls(fetchMock, 3);
+    const [uploadUrl, uploadInit] = fetchMock.calls[2].args;
+    assertEquals(String(uploadUrl).includes('/__up?'), true);
+    assertEquals(uploadInit?.method, 'POST');
+    assertEquals((uploadInit?.body as string).length, 1_000);
+
+    assertExists(measurement?.uplink);
+    assertEquals(api.uplink, measurement.uplink);
+    assertEquals(detail?.uplink, measurement.uplink);
+
+    api.dispose();
+});
+
+Deno.test('createNetworkInformation - Upload measurement without backend support', async () => {
+    const fetchMock = createFetchMock([
+        new Response('', { headers: { 'server-timing': 'dur=10' } }),
+        new Response('x'.repeat(1_000), {
+            headers: { 'server-timing': 'dur=10' },
+        }),
+    ]);
+
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        measurementCount: 1,
+        uploadMeasurement: true,
+        backend: createStaticFileBackend({
+            origin: 'https://static.example.com',
+            files: [{ path: '/probe-1k.bin', bytes: 1_000 }],
+        }),
+    }, { fetch: fetchMock });
+
+    await api.measure();
+
+    // Falls back to the estimated uplink
+    assertSpyCalls(fetchMock, 2);
+    assertEquals(api.uplink, api.downlink! * 0.5);
+
+    api.dispose();
+});
+
+Deno.test('createNetworkInformation - Failed upload keeps the download', async () => {
+    const downloads = createFetchMock([
+        new Response('', { headers: { 'server-timing': 'dur=10' } }),
+        new Response('x'.repeat(1_000), {
+            headers: { 'server-timing': 'dur=10' },
+        }),
+    ]);
+    const fetchMock = spy((input: RequestInfo | URL, init?: RequestInit) =>
+        init?.method === 'POST'
+            ? Promise.reject(new TypeError('Failed to fetch'))
+            : downloads(input, init)
+    );
+
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        measurementCount: 1,
+        uploadMeasurement: true,
+        outputShaping: OUTPUT_SHAPING_RAW,
+    }, { fetch: fetchMock });
+
+    await api.measure();
+
+    // Upload attempted, treated as unmeasured
+    assertSpyCalls(fetchMock, 3);
+    assertExists(api.downlink);
+    assertExists(api.effectiveType);
+    assertEquals(api.uplink, api.downlink * 0.5);
+
+    api.dispose();
+});
+
+Deno.test('Passive - Sample from resource timing', () => {
+    const sample = _sampleFromResourceTiming(
+        createResourceEntry(
+            'https://example.com/app.js',
+        ) as PerformanceResourceTiming,
+        10,
+        32_000,
+    );
+    assertExists(sample);
+    assertEquals(sample.rtt, 50);
+    assertEquals(sample.downlink, 1); // 800 kbit in 800ms
+    assertEquals(sample.source, 'passive');
+    // Dated from the end of the load
+    assertEquals(sample.timestamp, performance.timeOrigin + 960);
+
+    // Cross-origin without Timing-Allow-Origin
+    assertEquals(
+        _sampleFromResourceTiming(
+            {
+                ...createResourceEntry('https://cdn.example.com/app.js'),
+                requestStart: 0,
+                responseStart: 0,
+                transferSize: 0,
+            } as PerformanceResourceTiming,
+            10,
+            32_000,
+        ),
+        null,
+    );
+    // Too small to be meaningful
+    assertEquals(
+        _sampleFromResourceTiming(
+            createResourceEntry(
+                'https://example.com/icon.svg',
+                1_000,
+            ) as PerformanceResourceTiming,
+            10,
+            32_000,
+        ),
+        null,
+    );
+});
+
+Deno.test('createNetworkInformation - Passive measurement', async () => {
+    const { PerformanceObserver, emit, callbacks } =
+        createPerformanceObserverMock();
+    const fetchMock = createFetchMock([]);
+
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        passiveMeasurement: true,
+        passiveMinSamples: 2,
+    }, { fetch: fetchMock, PerformanceObserver });
+
+    let changes = 0;
+    api.addEventListener('change', () => changes++);
+
+    emit([createResourceEntry('https://example.com/a.js')]);
+    assertEquals(api.downlink, undefined);
+
+    emit([createResourceEntry('https://example.com/b.js')]);
+    assertEquals(changes, 1);
+    assertEquals(api.rtt, 50);
+    assertEquals(api.downlink, 1);
+    assertEquals(api.effectiveType, '4g');
+
+    // Fresh passive samples make active probes unnecessary
+    await api.measure();
+    assertSpyCalls(fetchMock, 0);
+
+    api.dispose();
+    assertEquals(callbacks.size, 0);
+});
+
+Deno.test('createNetworkInformation - Passive measurement skips old buffered entries', () => {
+    // Entries buffered since the page load, two minutes ago
+    using _time = new FakeTime(performance.timeOrigin + 120_000);
+    const { PerformanceObserver, emit } = createPerformanceObserverMock();
+
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        passiveMeasurement: true,
+        passiveMinSamples: 1,
+    }, { PerformanceObserver });
+
+    let samples = 0;
+    api.addEventListener('measurement', () => samples++);
+
+    // Older than passiveMaxAge, left to active probes
+    emit([createResourceEntry('https://example.com/a.js')]);
+    assertEquals(samples, 0);
+    assertEquals(api.getMeasurementHistory().length, 0);
+    assertEquals(api.downlink, undefined);
+
+    api.dispose();
+});
+
+Deno.test('createNetworkInformation - Passive measurement ignores own probes', async () => {
+    const { PerformanceObserver, emit } = createPerformanceObserverMock();
+    const fetchMock = createFetchMock([
+        new Response('', { headers: { 'server-timing': 'dur=10' } }),
+        new Response('test', { headers: { 'server-timing': 'dur=10' } }),
+    ]);
+
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        measurementCount: 1,
+        passiveMeasurement: true,
+        passiveMinSamples: 1,
+    }, { fetch: fetchMock, PerformanceObserver });
+
+    // Not enough passive samples, falls back to active probes
+    await api.measure();
+    assertSpyCalls(fetchMock, 2);
+
+    const passive: NetworkMeasurement[] = [];
+    api.addEventListener('measurement', (event) => {
+        passive.push(event.detail as NetworkMeasurement);
+    });
+    emit(
+        fetchMock.calls.map((call) =>
+            createResourceEntry(String(call.args[0]))
+        ),
+    );
+    assertEquals(passive.length, 0);
+
+    api.dispose();
+});
+
+Deno.test('Service worker - Sampler times upstream responses', async () => {
+    const upstream = new Response('x'.repeat(50_000), {
+        headers: { 'server-timing': 'dur=10' },
+    });
+    const fetchMock = createFetchMock([
+        upstream,
+        new Response('x'.repeat(50_000)),
+        new Response('x'.repeat(1_000)),
+    ]);
+    const messages: Record<string, unknown[]> = { page: [], other: [] };
+    const sampledFetch = createServiceWorkerSampler({
+        fetch: fetchMock,
+        clients: {
+            get: (id) =>
+                Promise.resolve({
+                    postMessage: (message: unknown) =>
+                        messages[id].push(message),
+                }),
+        },
+    });
+    const sampling: Promise<unknown>[] = [];
+    const createFetchEvent = (
+        url: string,
+        clientId: Partial<FetchEventLike>,
+    ) => ({
+        request: new Request(url),
+        ...clientId,
+        waitUntil: (promise: Promise<unknown>) => sampling.push(promise),
+    });
+
+    const now = stub(performance, 'now', returnsNext([1_000, 1_100, 1_500]));
+    const response = await sampledFetch(
+        createFetchEvent('https://example.com/app.js', { clientId: 'page' }),
+    );
+    // The upstream response is returned untouched, a clone is sampled
+    assertEquals(response === upstream, true);
+    assertEquals((await response.arrayBuffer()).byteLength, 50_000);
+    await Promise.all(sampling);
+
+    // Posted to the requesting client only
+    assertEquals(messages.other.length, 0);
+    assertEquals(messages.page.length, 1);
+    const { kind, url, sample } = messages
+        .page[0] as ServiceWorkerSampleMessage;
+    assertEquals(kind, 'network-information:sample');
+    assertEquals(url, 'https://example.com/app.js');
+    assertEquals(sample.rtt, 90);
+    assertEquals(sample.downlink, 1);
+    assertEquals(sample.source, 'passive');
+
+    now.restore();
+
+    // Navigations are sampled for the client they create
+    await sampledFetch(
+        createFetchEvent('https://example.com/', {
+            clientId: '',
+            resultingClientId: 'other',
+        }),
+    );
+    await Promise.all(sampling);
+    assertEquals(messages.other.length, 1);
+
+    // Too small to be meaningful
+    await sampledFetch(
+        createFetchEvent('https://example.com/icon.svg', { clientId: 'page' }),
+    );
+    await Promise.all(sampling);
+    assertEquals(messages.page.length, 1);
+});
+
+Deno.test('createNetworkInformation - Service worker sampling', async () => {
+    const fetchMock = createFetchMock([]);
+    const serviceWorker = new EventTarget();
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        serviceWorkerSampling: true,
+        passiveMinSamples: 1,
+    }, {
+        fetch: fetchMock,
+        serviceWorker: serviceWorker as unknown as ServiceWorkerContainerLike,
+    });
+
+    const sample = _sampleFromResourceTiming(
+        createResourceEntry(
+            'https://example.com/a.js',
+        ) as PerformanceResourceTiming,
+        10,
+        32_000,
+    );
+    serviceWorker.dispatchEvent(
+        new MessageEvent('message', {
+            data: {
+                kind: 'network-information:sample',
+                url: 'https://example.com/a.js',
+                sample,
+            },
+        }),
+    );
+    assertEquals(api.rtt, 50);
+    assertEquals(api.downlink, 1);
+    assertEquals(api.effectiveType, '4g');
+
+    // Fresh samples make active probes unnecessary
+    await api.measure();
+    assertSpyCalls(fetchMock, 0);
+
+    // Other messages are ignored
+    serviceWorker.dispatchEvent(
+        new MessageEvent('message', { data: { kind: 'other' } }),
+    );
+    assertEquals(api.getMeasurementHistory().length, 1);
+
+    api.dispose();
+});
+
+Deno.test('createNetworkInformation - Service worker sampling skips own probes', async () => {
+    const fetchMock = createFetchMock(createProbeResponses(2));
+    // Probes are only remembered while a service worker samples them
+    const serviceWorker = Object.assign(new EventTarget(), { controller: {} });
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        serviceWorkerSampling: true,
+        measurementCount: 1,
+    }, {
+        fetch: fetchMock,
+        serviceWorker: serviceWorker as unknown as ServiceWorkerContainerLike,
+    });
+
+    await api.measure();
+    const history = api.getMeasurementHistory();
+    for (const { args } of fetchMock.calls) {
+        serviceWorker.dispatchEvent(
+            new MessageEvent('message', {
+                data: {
+                    kind: 'network-information:sample',
+                    url: String(args[0]),
+                    sample: history[0],
+                },
+            }),
+        );
+    }
+    assertEquals(api.getMeasurementHistory(), history);
+
+    api.dispose();
+});
+
+Deno.test('createNetworkInformation - Custom estimator keeps history across cycles', async () => {
+    const fetchMock = createFetchMock([
+        new Response('', { headers: { 'server-timing': 'dur=10' } }),
+        new Response('test', { headers: { 'server-timing': 'dur=10' } }),
+        new Response('', { headers: { 'server-timing': 'dur=10' } }),
+        new Response('test', { headers: { 'server-timing': 'dur=10' } }),
+    ]);
+
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        measurementCount: 1,
+        measurementInterval: 0,
+        estimator: createWeightedMedianEstimator(),
+    }, { fetch: fetchMock });
+
+    await api.measure();
+    assertEquals(api.getMeasurementHistory().length, 1);
+
+    await api.measure();
+    const history = api.getMeasurementHistory();
+    assertEquals(history.length, 2);
+    assertEquals(history.every((m) => m.source === 'active'), true);
+
+    api.dispose();
+});
+
+Deno.test('createNetworkInformation - Stable cycles before effectiveType changes', () => {
+    const { PerformanceObserver, emit } = createPerformanceObserverMock();
+
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        passiveMeasurement: true,
+        passiveMinSamples: 1,
+        estimator: createMedianEstimator({ maxSamples: 1 }),
+        stableCycles: 2,
+    }, { PerformanceObserver });
+
+    const types: Array<string | undefined> = [];
+    api.addEventListener('change', () => {
+        types.push(api.effectiveType);
+    });
+
+    const fast = createResourceEntry('https://example.com/fast.js'); // 1 Mbps
+    const slow = createResourceEntry('https://example.com/slow.js', 50_000); // 0.5 Mbps
+
+    emit([fast]);
+    emit([slow]);
+    emit([fast]);
+    emit([slow]);
+    emit([slow]);
+
+    assertEquals(types, ['4g', '4g', '4g', '4g', '3g']);
+    assertEquals(api.downlink, 0.5);
+
+    api.dispose();
+});
+
+Deno.test('createNetworkInformation - Change events', async () => {
+    const responses = () => [
+        new Response('', { headers: { 'server-timing': 'dur=10' } }),
+        new Response('test', { headers: { 'server-timing': 'dur=10' } }),
+    ];
+
+    // Plain events per spec, values read off the object
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        measurementCount: 1,
+    }, { fetch: createFetchMock(responses()) });
+    const events: Event[] = [];
+    api.onchange = (event) => events.push(event);
+    await api.measure();
+
+    assertEquals(events.length, 1);
+    assertEquals(events[0] instanceof CustomEvent, false);
+    assertEquals(events[0].target, api);
+    assertExists(api.effectiveType);
+    api.dispose();
+
+    // CustomEvent with detail as an opt-in
+    const apiWithDetail = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        measurementCount: 1,
+        changeEventDetail: true,
+    }, { fetch: createFetchMock(responses()) });
+    let detail: NetworkChangeEventDetail | undefined;
+    apiWithDetail.addEventListener(
+        'change',
+        (event: CustomEvent<NetworkChangeEventDetail>) => {
+            detail = event.detail;
+        },
+    );
+    await apiWithDetail.measure();
+
+    assertEquals(detail?.effectiveType, apiWithDetail.effectiveType);
+    assertEquals(detail?.downlink, apiWithDetail.downlink);
+    apiWithDetail.dispose();
+});
+
+Deno.test('createNetworkInformation - Fresh persisted estimate skips the initial probe', async () => {
+    const fetchMock = createFetchMock([]);
+    const storage = createStorageMock();
+    const estimateStorage = createLocalStorageEstimateStorage({ storage });
+    estimateStorage.save({ downlink: 0.5, rtt: 150, timestamp: Date.now() });
+
+    const api = createNetworkInformation({
+        classificationTable: CLASSIFICATION_WICG,
+        estimateStorage,
+    }, { fetch: fetchMock });
+
+    // Available right away
+    assertEquals(api.downlink, 0.5);
+    assertEquals(api.rtt, 150);
+    assertEquals(api.effectiveType, '3g');
+    assertEquals(api.stale, false);
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    assertSpyCalls(fetchMock, 0);
+
+    api.dispose();
+});
+
+Deno.test('createNetworkInformation - Stale persisted estimate', async () => {
+    const fetchMock = createFetchMock([
+        new Response('', { headers: { 'server-timing': 'dur=10' } }),
+        new Response('x'.repeat(1_000), {
+            headers: { 'server-timing': 'dur=10' },
+        }),
+    ]);
+    let persisted: PersistedEstimate | undefined = {
+        downlink: 1.5,
+        rtt: 300,
+        timestamp: Date.now() - 60_000,
+    };
+    // Asynchronous storage, like IndexedDB
+    const estimateStorage: EstimateStorage = {
+        load: () => Promise.resolve(persisted),
+        save: (estimate) => {
+            persisted = estimate;
+        },
+    };
+
+    const api = createNetworkInformation({
+        classificationTable: CLASSIFICATION_WICG,
+        measurementCount: 1,
+        estimateMaxAge: 30_000,
+        estimateStorage,
+        outputShaping: OUTPUT_SHAPING_RAW,
+    }, { fetch: fetchMock });
+    assertEquals(api.downlink, undefined);
+
+    await new Promise((resolve) =>
+        api.addEventListener('change', resolve, { once: true })
+    );
+    assertEquals(api.downlink, 1.5);
+    assertEquals(api.stale, true);
+    assertEquals(api.getConnectionInfo().stale, true);
+
+    // The initial probe still runs, and its result is persisted
+    await new Promise((resolve) =>
+        api.addEventListener('change', resolve, { once: true })
+    );
+    assertSpyCalls(fetchMock, 2);
+    assertEquals(api.stale, false);
+    assertEquals(persisted?.downlink, api.downlink);
+
+    api.dispose();
+});
+
+Deno.test('createNetworkInformation - Abort measurement with a signal', async () => {
+    const fetchMock = createFetchMock([new Promise<Response>(() => {})]);
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        measurementCount: 1,
+    }, { fetch: fetchMock });
+
+    let changes = 0;
+    api.addEventListener('change', () => changes++);
+
+    const controller = new AbortController();
+    const promise = api.measure({ signal: controller.signal });
+    controller.abort();
+    await promise;
+
+    assertSpyCalls(fetchMock, 1);
+    assertEquals(fetchMock.calls[0].args[1]?.signal?.aborted, true);
+    assertEquals(changes, 0);
+    assertEquals(api.downlink, undefined);
+
+    // Already aborted signals do not start a measurement
+    await api.measure({ signal: controller.signal });
+    assertSpyCalls(fetchMock, 1);
+
+    api.dispose();
+});
+
+Deno.test('createNetworkInformation - Dispose aborts in-flight measurement', async () => {
+    const fetchMock = createFetchMock([new Promise<Response>(() => {})]);
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        measurementCount: 1,
+    }, { fetch: fetchMock });
+
+    const promise = api.measure();
+    api.dispose();
+    await promise;
+
+    assertEquals(fetchMock.calls[0].args[1]?.signal?.aborted, true);
+    assertEquals(api.downlink, undefined);
+});
+
+Deno.test('createNetworkInformation - Download timeout is evidence of a slow link', async () => {
+    const fetchMock = createFetchMock([
+        new Response('', { headers: { 'server-timing': 'dur=10' } }),
+        new Promise<Response>(() => {}),
+    ]);
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        measurementCount: 2,
+        baseMeasurementSize: 100,
+        requestTimeout: 100,
+    }, { fetch: fetchMock });
+
+    const measurements: NetworkMeasurement[] = [];
+    api.addEventListener('measurement', (event) => {
+        measurements.push(event.detail as NetworkMeasurement);
+    });
+    await api.measure();
+
+    // The cycle stops after the first timeout
+    assertSpyCalls(fetchMock, 2);
+    assertEquals(measurements.length, 1);
+    assertEquals(measurements[0].timedOut, true);
+    // At most 100 bytes (plus headers) in 100ms
+    assertEquals(measurements[0].downlink, 8 * 100 * 1.005 / 0.1 / 1_000_000);
+    assertEquals(api.effectiveType, 'slow-2g');
+
+    api.dispose();
+});
+
+Deno.test('createNetworkInformation - Latency timeout is evidence of a slow link', async () => {
+    const fetchMock = createFetchMock([new Promise<Response>(() => {})]);
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        measurementCount: 1,
+        requestTimeout: 1_500,
+    }, { fetch: fetchMock });
+
+    await api.measure();
+
+    // No download attempted
+    assertSpyCalls(fetchMock, 1);
+    assertEquals(api.rtt, 1_500);
+    assertEquals(api.effectiveType, 'slow-2g');
+
+    api.dispose();
+});
+
+Deno.test('createNetworkInformation - Cycle budget keeps completed measurements', async () => {
+    const fetchMock = createFetchMock([
+        new Response('', { headers: { 'server-timing': 'dur=10' } }),
+        new Response('test', { headers: { 'server-timing': 'dur=10' } }),
+        new Promise<Response>(() => {}),
+    ]);
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        measurementCount: 2,
+        cycleTimeout: 400,
+    }, { fetch: fetchMock });
+
+    await api.measure();
+
+    assertSpyCalls(fetchMock, 3);
+    assertEquals(fetchMock.calls[2].args[1]?.signal?.aborted, true);
+    assertEquals(api.getMeasurementHistory().length, 1);
+    assertExists(api.downlink);
+
+    api.dispose();
+});
+
+Deno.test('createNetworkInformation - Data budget', async () => {
+    const probe = (bytes: number) =>
+        new Response('x'.repeat(bytes), {
+            headers: { 'server-timing': 'dur=10' },
+        });
+    const fetchMock = createFetchMock([
+        probe(0),
+        probe(10_000),
+        probe(0),
+        probe(10_000),
+    ]);
+    const services = {
+        fetch: fetchMock,
+        localStorage: createStorageMock(),
+        sessionStorage: createStorageMock(),
+    };
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        baseMeasurementSize: 10_000,
+        sessionDataBudget: 25_000,
+    }, services);
+    const onBudget = spy((_event: CustomEvent<DataBudgetUsage>) => {});
+    api.addEventListener('budget', onBudget);
+
+    await api.measure();
+
+    // The second probe is shrunk to fit
+    assertSpyCalls(fetchMock, 4);
+    assertEquals(
+        String(fetchMock.calls[3].args[0]).includes('bytes=10000'),
+        true,
+    );
+    assertSpyCalls(onBudget, 4);
+    assertEquals(onBudget.calls[3].args[0].detail.sessionBytes, 20_100);
+    assertEquals(api.budget.sessionBytes, 20_100);
+    assertEquals(api.budget.dailyBytes, 20_100);
+    assertEquals(api.budget.remaining, 4_900);
+
+    // Cycles are skipped once no probe fits
+    await api.measure();
+    assertSpyCalls(fetchMock, 4);
+
+    // Usage survives reloads
+    const reloaded = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        sessionDataBudget: 25_000,
+    }, services);
+    assertEquals(reloaded.budget.sessionBytes, 20_100);
+    assertEquals(reloaded.budget.dailyBytes, 20_100);
+
+    api.dispose();
+    reloaded.dispose();
+});
+
+Deno.test('createNetworkInformation - Cross-tab sharing', async () => {
+    using fakeTime = new FakeTime();
+
+    const probes = () => [
+        new Response('', { headers: { 'server-timing': 'dur=10' } }),
+        new Response('x'.repeat(1_000), {
+            headers: { 'server-timing': 'dur=10' },
+        }),
+    ];
+    const { BroadcastChannel, channels } = createBroadcastChannelMock();
+    const config = {
+        classificationTable: CLASSIFICATION_WICG,
+        measurementCount: 1,
+        crossTab: true,
+    };
+    const fetchA = createFetchMock(probes());
+    const tabA = createTestInstance(config, {
+        fetch: fetchA,
+        BroadcastChannel,
+    });
+
+    // Alone, the first tab takes the lead after a heartbeat
+    await advanceTime(fakeTime, 1_000);
+    const fetchB = createFetchMock(probes());
+    const tabB = createTestInstance(config, {
+        fetch: fetchB,
+        BroadcastChannel,
+    });
+
+    // Followers ask the leader, and apply its results
+    await tabB.measure();
+    await advanceTime(fakeTime, 100);
+    assertSpyCalls(fetchA, 2);
+    assertSpyCalls(fetchB, 0);
+    assertExists(tabA.downlink);
+    assertEquals(tabB.downlink, tabA.downlink);
+    assertEquals(tabB.rtt, tabA.rtt);
+
+    // Heartbeats keep followers following
+    await advanceTime(fakeTime, 5_000);
+    await tabB.measure();
+    assertSpyCalls(fetchB, 0);
+
+    // A follower takes over when the leader closes
+    tabA.dispose();
+    const measured = tabB.measure();
+    await advanceTime(fakeTime, 100);
+    await measured;
+    assertSpyCalls(fetchB, 2);
+
+    tabB.dispose();
+    assertEquals(channels.size, 0);
+});
+
+Deno.test('createNetworkInformation - Hidden leader tab hands over', async () => {
+    using fakeTime = new FakeTime();
+
+    const { BroadcastChannel } = createBroadcastChannelMock();
+    const config = {
+        classificationTable: CLASSIFICATION_WICG,
+        periodicMeasurement: true,
+        measurementInterval: 5_000,
+        measurementBackoff: 1,
+        measurementCount: 1,
+        crossTab: true,
+    };
+    const documentA = Object.assign(new EventTarget(), {
+        visibilityState: 'visible',
+    });
+    const fetchA = createFetchMock(createProbeResponses(4));
+    const tabA = createNetworkInformation(config, {
+        fetch: fetchA,
+        BroadcastChannel,
+        document: documentA,
+    });
+    await advanceTime(fakeTime, 1_100);
+    assertSpyCalls(fetchA, 2);
+
+    const documentB = Object.assign(new EventTarget(), {
+        visibilityState: 'visible',
+    });
+    const fetchB = createFetchMock(createProbeResponses(4));
+    const tabB = createNetworkInformation(config, {
+        fetch: fetchB,
+        BroadcastChannel,
+        document: documentB,
+    });
+    await advanceTime(fakeTime, 100);
+    assertSpyCalls(fetchB, 0);
+
+    // The hidden leader stops measuring, the visible tab takes over
+    documentA.visibilityState = 'hidden';
+    documentA.dispatchEvent(new Event('visibilitychange'));
+    await advanceTime(fakeTime, 5_100);
+    assertSpyCalls(fetchA, 2);
+    assertSpyCalls(fetchB, 2);
+
+    tabA.dispose();
+    tabB.dispose();
+});
+
+Deno.test('createNetworkInformation - Mirror a worker-hosted instance', async () => {
+    const fetchMock = createFetchMock([
+        new Response('', { headers: { 'server-timing': 'dur=10' } }),
+        new Response('x'.repeat(1_000), {
+            headers: { 'server-timing': 'dur=10' },
+        }),
+    ]);
+    const host = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        measurementCount: 1,
+    }, { fetch: fetchMock });
+    const { port1, port2 } = new MessageChannel();
+    const stopExposing = exposeNetworkInformation(host, port1);
+
+    const mirror = createNetworkInformationMirror(port2);
+    assertInstanceOf(mirror, NetworkInformation);
+    assertEquals(mirror.downlink, undefined);
+
+    // Measurements are requested from the host, values flow back
+    const changed = new Promise((resolve) => {
+        mirror.onchange = () => {
+            if (mirror.downlink !== undefined) resolve(undefined);
+        };
+    });
+    await mirror.measure();
+    await changed;
+    assertSpyCalls(fetchMock, 2);
+    assertEquals(mirror.downlink, host.downlink);
+    assertEquals(mirror.effectiveType, host.effectiveType);
+    assertEquals(mirror.getConnectionInfo(), host.getConnectionInfo());
+
+    stopExposing();
+    mirror.dispose();
+    host.dispose();
+    port1.close();
+    port2.close();
+});
+
+Deno.test('Client hints - Headers rounded like Chrome', () => {
+    assertEquals(
+        _clientHintHeaders({
+            saveData: false,
+            type: 'unknown',
+            downlinkMax: Infinity,
+            stale: false,
+        }),
+        {},
+    );
+    assertEquals(
+        _clientHintHeaders({
+            downlink: 1.234,
+            rtt: 130,
+            effectiveType: '4g',
+            saveData: true,
+            type: 'unknown',
+            downlinkMax: Infinity,
+            stale: false,
+        }),
+        { ECT: '4g', RTT: '150', Downlink: '1.25', 'Save-Data': 'on' },
+    );
+    assertEquals(
+        _clientHintHeaders({
+            downlink: 54,
+            rtt: 5_000,
+            effectiveType: 'slow-2g',
+            saveData: false,
+            type: 'unknown',
+            downlinkMax: Infinity,
+            stale: false,
+        }),
+        { ECT: 'slow-2g', RTT: '3000', Downlink: '10' },
+    );
+});
+
+Deno.test('Client hints - Rounded once with the output shaping', async () => {
+    const connection = createNetworkInformation({
+        classificationTable: CLASSIFICATION_WICG,
+        estimateStorage: {
+            load: () => ({ downlink: 1.5, rtt: 74, timestamp: Date.now() }),
+            save: () => {},
+        },
+        autostart: false,
+    });
+    // Exposed as 75ms, which would round to 100ms
+    assertEquals(connection.rtt, 75);
+
+    const fetchMock = createFetchMock([new Response(), new Response()]);
+    const fetchWithHints = createClientHintsFetch(connection, {
+        fetch: fetchMock,
+        origin: 'https://example.com',
+    });
+    await fetchWithHints('https://example.com/api');
+    const request = fetchMock.calls[0].args[0] as Request;
+    assertEquals(request.headers.get('RTT'), '50');
+    connection.dispose();
+
+    // No finer than a coarser shaping, with its noise
+    using _random = stub(Math, 'random', () => 0.75);
+    const coarse = createNetworkInformation({
+        classificationTable: CLASSIFICATION_WICG,
+        estimateStorage: {
+            load: () => ({ downlink: 1.2, rtt: 130, timestamp: Date.now() }),
+            save: () => {},
+        },
+        outputShaping: { rttStep: 100, downlinkStep: 0.5 },
+        outputNoise: 0.2,
+        autostart: false,
+    });
+    await createClientHintsFetch(coarse, {
+        fetch: fetchMock,
+        origin: 'https://example.com',
+    })('https://example.com/api');
+    // 143ms and 1.32 Mbps once noisy
+    const { headers } = fetchMock.calls[1].args[0] as Request;
+    assertEquals(headers.get('RTT'), '100');
+    assertEquals(headers.get('Downlink'), '1.5');
+    coarse.dispose();
+});
+
+Deno.test('Client hints - Fetch wrapper, service worker and cookie', async () => {
+    const connection = createNetworkInformation({
+        classificationTable: CLASSIFICATION_WICG,
+        estimateStorage: {
+            load: () => ({ downlink: 1.5, rtt: 100, timestamp: Date.now() }),
+            save: () => {},
+        },
+        autostart: false,
+    });
+    const hints = { ECT: '4g', RTT: '100', Downlink: '1.5' };
+
+    // Same-origin requests only, headers already set are kept
+    const fetchMock = createFetchMock([new Response(), new Response()]);
+    const fetchWithHints = createClientHintsFetch(connection, {
+        fetch: fetchMock,
+        origin: 'https://example.com',
+    });
+    await fetchWithHints('https://example.com/api', {
+        headers: { RTT: '0' },
+    });
+    await fetchWithHints('https://cdn.example.com/app.js');
+    const [sameOrigin, crossOrigin] = fetchMock.calls.map((call) =>
+        call.args[0] as Request
+    );
+    assertEquals(sameOrigin.headers.get('ECT'), '4g');
+    assertEquals(sameOrigin.headers.get('RTT'), '0');
+    assertEquals(crossOrigin.headers.has('ECT'), false);
+
+    // Pages post the hints to their service worker
+    const scope = new EventTarget();
+    const controller = {
+        postMessage: (data: unknown) =>
+            scope.dispatchEvent(new MessageEvent('message', { data })),
+    };
+    const stopPosting = postClientHints(connection, {
+        controller,
+        addEventListener: () => {},
+        removeEventListener: () => {},
+    });
+    const swHints = createServiceWorkerClientHints({
+        scope: scope as unknown as MessagePortLike,
+        origin: 'https://example.com',
+    });
+    assertEquals(
+        swHints.apply(new Request('https://example.com/a')).headers.get(
+            'Downlink',
+        ),
+        null,
+    );
+    connection.dispatchEvent(new Event('change'));
+    const request = swHints.apply(new Request('https://example.com/a'));
+    assertEquals(
+        Object.fromEntries(
+            Object.keys(hints).map((name) => [name, request.headers.get(name)]),
+        ),
+        hints,
+    );
+    assertEquals(
+        swHints.apply(new Request('https://cdn.example.com/a')).headers.has(
+            'ECT',
+        ),
+        false,
+    );
+    stopPosting();
+    swHints.dispose();
+
+    // Navigations carry the cookie
+    const document = { cookie: '' };
+    const stopCookie = setClientHintsCookie(connection, { document });
+    assertEquals(
+        document.cookie,
+        'network-information=ect=4g&rtt=100&downlink=1.5; path=/; SameSite=Lax',
+    );
+    stopCookie();
+
+    connection.dispose();
+});
+
+Deno.test('installWorkerNetworkInformationPolyfill - Requires a worker scope', () => {
+    assertThrows(
+        () =>
+            installWorkerNetworkInformationPolyfill({
+                classificationTable: CLASSIFICATION_WICG,
+            }),
+        TypeError,
+        'WorkerGlobalScope',
+    );
+});
+
+Deno.test('createNetworkInformation - Persisted saveData preference', () => {
+    const localStorage = createStorageMock();
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+    }, { localStorage });
+
+    let changes = 0;
+    api.addEventListener('change', () => changes++);
+
+    api.setSaveData(true);
+    assertEquals(api.saveData, true);
+    assertEquals(api.getConnectionInfo().saveData, true);
+    assertEquals(changes, 1);
+
+    // Same value, no event
+    api.setSaveData(true);
+    assertEquals(changes, 1);
+
+    // Hydrated on construction
+    const other = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+    }, { localStorage });
+    assertEquals(other.saveData, true);
+
+    api.setSaveData(null);
+    assertEquals(api.saveData, false);
+    assertEquals(localStorage.items.size, 0);
+    assertEquals(changes, 2);
+
+    api.dispose();
+    other.dispose();
+});
+
+Deno.test('createNetworkInformation - saveData from prefers-reduced-data', () => {
+    const listeners = new Set<(event: { matches: boolean }) => void>();
+    const mediaQueryList = {
+        matches: true,
+        addEventListener: (
+            _type: 'change',
+            listener: (event: { matches: boolean }) => void,
+        ) => listeners.add(listener),
+        removeEventListener: (
+            _type: 'change',
+            listener: (event: { matches: boolean }) => void,
+        ) => listeners.delete(listener),
+    };
+    const matchMedia = spy((_query: string) => mediaQueryList);
+
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+    }, { matchMedia, localStorage: createStorageMock() });
+
+    assertEquals(matchMedia.calls[0].args[0], '(prefers-reduced-data: reduce)');
+    assertEquals(api.saveData, true);
+
+    let changes = 0;
+    api.addEventListener('change', () => changes++);
+    for (const listener of listeners) listener({ matches: false });
+    assertEquals(api.saveData, false);
+    assertEquals(changes, 1);
+
+    // The user preference wins
+    api.setSaveData(true);
+    for (const listener of listeners) listener({ matches: false });
+    assertEquals(api.saveData, true);
+
+    api.dispose();
+    assertEquals(listeners.size, 0);
+});
+
+Deno.test('createNetworkInformation - saveData from a Save-Data hint header', async () => {
+    const fetchMock = createFetchMock([
+        new Response('', { headers: { 'server-timing': 'dur=10' } }),
+        new Response('test', {
+            headers: { 'server-timing': 'dur=10', 'save-data': 'on' },
+        }),
+    ]);
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        measurementCount: 1,
+        saveDataHeader: 'save-data',
+        changeEventDetail: true,
+    }, { fetch: fetchMock, localStorage: createStorageMock() });
+
+    let detail: NetworkChangeEventDetail | undefined;
+    api.addEventListener(
+        'change',
+        (event: CustomEvent<NetworkChangeEventDetail>) => {
+            detail = event.detail;
+        },
+    );
+    await api.measure();
+
+    assertEquals(api.saveData, true);
+    assertEquals(detail?.saveData, true);
+
+    api.dispose();
+});
+
+Deno.test('createNetworkInformation - saveData on slow connections', () => {
+    const { PerformanceObserver, emit } = createPerformanceObserverMock();
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        passiveMeasurement: true,
+        passiveMinSamples: 1,
+        passiveMinTransferSize: 1_000,
+        estimator: createMedianEstimator({ maxSamples: 1 }),
+        saveDataEffectiveTypes: ['slow-2g', '2g'],
+    }, { PerformanceObserver, localStorage: createStorageMock() });
+
+    emit([createResourceEntry('https://example.com/a.js')]);
+    assertEquals(api.effectiveType, '4g');
+    assertEquals(api.saveData, false);
+
+    emit([createResourceEntry('https://example.com/b.js', 5_000)]); // 50 kbps
+    assertEquals(api.effectiveType, '2g');
+    assertEquals(api.saveData, true);
+
+    api.dispose();
+});
+
+Deno.test('createNetworkInformation - Offline connection type', () => {
+    const globalScope = Object.assign(new EventTarget(), {
+        navigator: { onLine: false },
+    });
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+    }, { globalScope });
+    const onChange = spy();
+    api.addEventListener('change', onChange);
+
+    assertEquals(api.type, 'none');
+    assertEquals(api.downlinkMax, 0);
+
+    globalScope.navigator.onLine = true;
+    globalScope.dispatchEvent(new Event('online'));
+    assertEquals(api.type, 'unknown');
+    assertEquals(api.downlinkMax, Infinity);
+    assertSpyCalls(onChange, 1);
+
+    api.dispose();
+    globalScope.dispatchEvent(new Event('offline'));
+    assertEquals(api.type, 'unknown');
+    assertSpyCalls(onChange, 1);
+});
+
+Deno.test('createNetworkInformation - Connection type from a provider', () => {
+    const typeProvider = createManualTypeProvider({ type: 'wifi' });
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        changeEventDetail: true,
+        typeProvider,
+    }, { globalScope: new EventTarget() });
+    const onChange = spy((_event: CustomEvent<NetworkChangeEventDetail>) => {});
+    api.addEventListener('change', onChange);
+
+    assertEquals(api.type, 'wifi');
+    assertEquals(api.downlinkMax, Infinity);
+
+    typeProvider.set({ type: 'cellular', downlinkMax: 100 });
+    assertEquals(api.type, 'cellular');
+    assertEquals(api.downlinkMax, 100);
+    assertSpyCalls(onChange, 1);
+    assertEquals(onChange.calls[0].args[0].detail.type, 'cellular');
+    assertEquals(onChange.calls[0].args[0].detail.downlinkMax, 100);
+    assertEquals(api.getConnectionInfo().downlinkMax, 100);
+
+    // Unchanged hint does not notify
+    typeProvider.set({ type: 'cellular', downlinkMax: 100 });
+    assertSpyCalls(onChange, 1);
+
+    api.dispose();
+});
+
+Deno.test('createNetworkInformation - Probes pause while offline', async () => {
+    const fetchMock = createFetchMock([
+        new Promise<Response>(() => {}),
+        new Response('', { headers: { 'server-timing': 'dur=10' } }),
+        new Response('x'.repeat(1_000), {
+            headers: { 'server-timing': 'dur=10' },
+        }),
+    ]);
+    const globalScope = Object.assign(new EventTarget(), {
+        navigator: { onLine: true },
+    });
+    const api = createTestInstance({
+        classificationTable: CLASSIFICATION_WICG,
+        measurementCount: 1,
+    }, { fetch: fetchMock, globalScope });
+    const onChange = spy();
+    api.addEventListener('change', onChange);
+
+    // Going offline aborts the in-flight cycle and publishes 'none'
+    const pending = api.measure();
+    globalScope.navigator.onLine = false;
+    globalScope.dispatchEvent(new Event('offline'));
+    await pending;
+    assertEquals(fetchMock.calls[0].args[1]?.signal?.aborted, true);
+    assertEquals(api.type, 'none');
+    assertSpyCalls(onChange, 1);
+
+    // No probes while offline
+    await api.measure();
+    assertSpyCalls(fetchMock, 1);
+
+    // Reconnecting measures right away
+    const measured = new Promise((resolve) =>
+        api.addEventListener('measurement', resolve, { once: true })
+    );
+    globalScope.navigator.onLine = true;
+    globalScope.dispatchEvent(new Event('online'));
+    assertEquals(api.type, 'unknown');
+    await measured;
+    assertSpyCalls(fetchMock, 3);
+
+    api.dispose();
+});
+
+Deno.test('Connection type - RTT heuristics', () => {
+    const now = Date.now();
+    const withRtts = (rtts: number[]) =>
+        rtts.map((rtt, i) => createSample(now + i, 10, rtt));
+
+    assertEquals(_inferNetworkType(withRtts([5])), 'unknown');
+    assertEquals(_inferNetworkType(withRtts([5, 6, 5, 7])), 'ethernet');
+    assertEquals(_inferNetworkType(withRtts([25, 35, 20, 30])), 'wifi');
+    assertEquals(_inferNetworkType(withRtts([80, 150, 90, 200])), 'cellular');
+    assertEquals(_inferNetworkType(withRtts([10, 40, 10, 40])), 'cellular');
+});
+
 // Integration test with real network (optional, requires --allow-net)
 Deno.test({
     name: 'createNetworkInformation - Real network integration',
@@ -1,57 +1,405 @@
 import type {
+    BatteryManagerLike,
+    BroadcastChannelConstructor,
+    ClassificationMetrics,
+    ClassificationRule,
     ConnectionClassification,
     ConnectionInfo,
+    DataBudgetUsage,
+    DocumentLike,
+    DownloadProgress,
     EffectiveConnectionType,
+    GlobalScopeLike,
+    LatencyStats,
+    MeasureOptions,
+    MediaQueryListLike,
     NetworkChangeEventDetail,
+    NetworkEstimator,
     NetworkInformationConfig,
+    NetworkInformationConstructor,
     NetworkInformationLike,
     NetworkInformationServices,
     NetworkMeasurement,
     NetworkType,
+    NetworkTypeHint,
+    OutputShaping,
+    PerformanceObserverConstructor,
     PerformanceResourceTiming,
+    PersistedEstimate,
+    ServiceWorkerContainerLike,
+    StorageLike,
 } from './types.ts';
+import { createCloudflareBackend } from './backends/cloudflare.ts';
+import { _inferNetworkType } from './connection-type.ts';
+import { createDataBudget } from './data-budget.ts';
+import {
+    createTabCoordinator,
+    type CrossTabResult,
+    type TabCoordinator,
+} from './cross-tab.ts';
+import { _median, createMedianEstimator } from './estimators.ts';
+import OUTPUT_SHAPING_SPEC from './output-shaping/spec.ts';
+import { observeResourceTimings } from './passive.ts';
+import type { ServiceWorkerSampleMessage } from './service-worker.ts';
+import { validateClassificationTable } from './validation.ts';
+
+export { _median } from './estimators.ts';
+
+/**
+ * Check whether a rule matches the metrics, unmeasured metrics never match
+ * @param rule Classification rule
+ * @param metrics Values to classify
+ * @param factor Hysteresis factor, loosening (> 1) or tightening (< 1) thresholds
+ * @returns Whether the rule matches
+ */
+const matchesRule = (
+    rule: ClassificationRule,
+    metrics: ClassificationMetrics,
+    factor: number,
+): boolean => {
+    if ('all' in rule) {
+        return rule.all.every((r) => matchesRule(r, metrics, factor));
+    }
+    if ('any' in rule) {
+        return rule.any.some((r) => matchesRule(r, metrics, factor));
+    }
+    const value = metrics[rule.metric];
+    if (value === undefined || !isFinite(value)) return false;
+    return (rule.below === undefined || value < rule.below * factor) &&
+        (rule.above === undefined || value > rule.above / factor);
+};
+
+/**
+ * Find the classification entry matching the metrics
+ *
+ * Entries are checked in order, the first one with a matching threshold or
+ * rule wins. When the current entry is given, thresholds are shifted by the
+ * hysteresis margin in its favour: values must cross a boundary by that
+ * margin to move to another entry.
+ *
+ * An entry with a `maxJitter` is only reported if the jitter does not exceed
+ * it, otherwise the connection falls to the previous (worse) entry.
+ *
+ * @param classificationTable The classification table
+ * @param metrics Values to classify
+ * @param current Currently reported entry
+ * @param hysteresis Default hysteresis margin as a fraction of the thresholds
+ * @returns The matching entry
+ */
+export const _classifyEntry = (
+    classificationTable: ConnectionClassification[],
+    metrics: ClassificationMetrics,
+    current?: ConnectionClassification,
+    hysteresis: number = 0,
+): ConnectionClassification => {
+    const { downlink, rtt, jitter, loadedRtt } = metrics;
+    if (!isFinite(downlink) || downlink <= 0 || !isFinite(rtt) || rtt < 0) {
+        return classificationTable[0];
+    }
+
+    const currentIndex = current ? classificationTable.indexOf(current) : -1;
+    let matchIndex = classificationTable.findIndex((classification, index) => {
+        const margin = classification.hysteresis ?? hysteresis;
+        // Easier to stay in the current entry, harder to fall into worse ones
+        const factor = index === currentIndex
+            ? 1 + margin
+            : index < currentIndex
+            ? 1 - margin
+            : 1;
+        const exceedsDownlinkLimit = classification.maxDownlink !== undefined &&
+            downlink < classification.maxDownlink * factor;
+        const exceedsRttLimit = classification.minRtt !== undefined &&
+            rtt > classification.minRtt / factor;
+        const exceedsLoadedRttLimit =
+            classification.minLoadedRtt !== undefined &&
+            loadedRtt !== undefined &&
+            loadedRtt > classification.minLoadedRtt / factor;
+        return exceedsDownlinkLimit || exceedsRttLimit ||
+            exceedsLoadedRttLimit ||
+            (classification.rule !== undefined &&
+                matchesRule(classification.rule, metrics, factor));
+    });
+    if (matchIndex === -1) matchIndex = classificationTable.length - 1;
+
+    // Too much jitter for the entry, fall to worse ones
+    if (jitter !== undefined && isFinite(jitter)) {
+        while (matchIndex > 0) {
+            const classification = classificationTable[matchIndex];
+            // Easier to stay in the current entry
+            const factor = matchIndex === currentIndex
+                ? 1 + (classification.hysteresis ?? hysteresis)
+                : 1;
+            if (
+                classification.maxJitter === undefined ||
+                jitter <= classification.maxJitter * factor
+            ) {
+                break;
+            }
+            matchIndex--;
+        }
+    }
+
+    return classificationTable[matchIndex];
+};
 
 /**
  * Classify connection type based on speed and latency using the configured table
+ *
  * @param classificationTable The classification table
  * @param downlinkMbps Downlink speed in Mbps
  * @param rttMs Round-trip time in milliseconds
+ * @param currentType Currently reported type
+ * @param hysteresis Default hysteresis margin as a fraction of the thresholds
+ * @param metrics Optional metrics, ignored when not measured
  * @returns Effective connection type
  */
 export const _classifyConnection = (
     classificationTable: ConnectionClassification[],
     downlinkMbps: number,
     rttMs: number,
+    currentType?: EffectiveConnectionType,
+    hysteresis: number = 0,
+    metrics: Omit<ClassificationMetrics, 'downlink' | 'rtt'> = {},
 ): EffectiveConnectionType => {
-    if (
-        !isFinite(downlinkMbps) || downlinkMbps <= 0 || !isFinite(rttMs) ||
-        rttMs < 0
-    ) {
-        return classificationTable[0].type;
+    return _classifyEntry(
+        classificationTable,
+        { ...metrics, downlink: downlinkMbps, rtt: rttMs },
+        classificationTable.find((c) => c.type === currentType),
+        hysteresis,
+    ).type;
+};
+
+/**
+ * Round a value to a step and cap it, as native implementations do
+ * @param value Raw value
+ * @param step Step to round to, none if undefined
+ * @param max Cap, none if undefined
+ * @returns Shaped value
+ */
+export const _shapeValue = (
+    value: number,
+    step?: number,
+    max?: number,
+): number => {
+    // toPrecision drops floating point residues of decimal steps (0.025)
+    const rounded = step
+        ? +(Math.round(value / step) * step).toPrecision(12)
+        : value;
+    return max === undefined ? rounded : Math.min(rounded, max);
+};
+
+/**
+ * Confidence in an estimate from the number and the spread of its samples
+ *
+ * More samples raise it (1 sample: 1/3, 6: 3/4), dispersion lowers it:
+ * it is divided by one plus the largest coefficient of variation of the
+ * downlinks and RTTs.
+ *
+ * @param samples Samples the estimate is based on
+ * @returns Confidence from 0 to 1, before aging
+ */
+export const _sampleConfidence = (
+    samples: Array<{ downlink: number; rtt: number }>,
+): number => {
+    if (!samples.length) return 0;
+    const variation = (values: number[]): number => {
+        const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+        if (!mean) return 0;
+        const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) /
+            values.length;
+        return Math.sqrt(variance) / mean;
+    };
+    const count = samples.length / (samples.length + 2);
+    const spread = Math.max(
+        variation(samples.map((s) => s.downlink)),
+        variation(samples.map((s) => s.rtt)),
+    );
+    return count / (1 + spread);
+};
+
+/**
+ * Summarize the RTTs of a multi-ping phase
+ * @param rtts RTTs of the answered probes in milliseconds, in probe order
+ * @param failed Number of probes that failed or timed out
+ * @returns Latency statistics
+ */
+export const _latencyStats = (rtts: number[], failed: number): LatencyStats => {
+    const sorted = [...rtts].sort((a, b) => a - b);
+    let jitter = 0;
+    for (let i = 1; i < rtts.length; i++) {
+        jitter += Math.abs(rtts[i] - rtts[i - 1]);
     }
+    return {
+        rttMin: sorted[0],
+        rttMedian: _median(sorted),
+        rttP90: sorted[Math.ceil(0.9 * sorted.length) - 1],
+        jitter: rtts.length > 1 ? jitter / (rtts.length - 1) : 0,
+        failedRatio: failed / (rtts.length + failed),
+    };
+};
 
-    for (const classification of classificationTable) {
-        const exceedsDownlinkLimit = classification.maxDownlink !== undefined &&
-            downlinkMbps < classification.maxDownlink;
-        const exceedsRttLimit = classification.minRtt !== undefined &&
-            rttMs > classification.minRtt;
+/** Shapers of the values of the instances, by instance */
+const connectionInfoShapers = new WeakMap<
+    NetworkInformationLike,
+    (shaping: OutputShaping) => ConnectionInfo
+>();
 
-        if (exceedsDownlinkLimit || exceedsRttLimit) {
-            return classification.type;
-        }
+/**
+ * Combine the shaping of a consumer with the one of an instance: steps are
+ * the consumer's, or multiples of them as coarse as the instance's, caps
+ * are the lower ones
+ */
+const combineShaping = (
+    shaping: OutputShaping,
+    instanceShaping: OutputShaping,
+): OutputShaping => {
+    const step = (base?: number, other?: number): number | undefined =>
+        base && other
+            ? base * Math.max(1, Math.ceil(+(other / base).toPrecision(12)))
+            : base || other;
+    const cap = (a?: number, b?: number): number | undefined =>
+        a === undefined || b === undefined ? a ?? b : Math.min(a, b);
+    return {
+        rttStep: step(shaping.rttStep, instanceShaping.rttStep),
+        maxRtt: cap(shaping.maxRtt, instanceShaping.maxRtt),
+        downlinkStep: step(shaping.downlinkStep, instanceShaping.downlinkStep),
+        maxDownlink: cap(shaping.maxDownlink, instanceShaping.maxDownlink),
+    };
+};
+
+/**
+ * Get the values of an instance shaped for a consumer rounding them its own
+ * way (e.g. client hints), rounded once from the measured values with the
+ * noise of the instance, and no finer than its output shaping
+ * @param connection Instance the values are read from
+ * @param shaping Rounding and caps of the consumer
+ * @returns Shaped values, or the exposed ones if not created by
+ * `createNetworkInformation` (e.g. a mirror)
+ */
+export const _getShapedConnectionInfo = (
+    connection: NetworkInformationLike,
+    shaping: OutputShaping,
+): ConnectionInfo => {
+    return connectionInfoShapers.get(connection)?.(shaping) ??
+        connection.getConnectionInfo();
+};
+
+/**
+ * NetworkInformation interface object, so that polyfilled instances pass
+ * `instanceof NetworkInformation` and `instanceof EventTarget` checks.
+ * Instances are created with `createNetworkInformation`.
+ */
+export const NetworkInformation: NetworkInformationConstructor =
+    function NetworkInformation(): never {
+        throw new TypeError('Illegal constructor');
+    } as NetworkInformationConstructor;
+Object.setPrototypeOf(NetworkInformation, EventTarget);
+NetworkInformation.prototype = Object.create(EventTarget.prototype, {
+    constructor: {
+        value: NetworkInformation,
+        writable: true,
+        configurable: true,
+    },
+    [Symbol.toStringTag]: {
+        value: 'NetworkInformation',
+        configurable: true,
+    },
+});
+
+/**
+ * Get a Web Storage, which throws when access is denied (e.g. sandboxed iframes)
+ * @param name Storage to get
+ * @returns The storage or undefined if not available
+ */
+const getWebStorage = (
+    name: 'localStorage' | 'sessionStorage',
+): StorageLike | undefined => {
+    try {
+        return (globalThis as Partial<Record<typeof name, StorageLike>>)[name];
+    } catch {
+        return undefined;
     }
+};
+
+/**
+ * Size the next probe so that it downloads for the target duration
+ * at the last measured throughput
+ * @param downlink Last measured throughput in Mbps
+ * @param targetDuration Target download duration in milliseconds
+ * @param minSize Minimum size in bytes
+ * @param maxSize Maximum size in bytes
+ * @returns Size of the next probe in bytes
+ */
+export const _nextProbeSize = (
+    downlink: number,
+    targetDuration: number,
+    minSize: number,
+    maxSize: number,
+): number => {
+    const bytes = Math.round(downlink * 1_000_000 / 8 * targetDuration / 1_000);
+    return Math.min(maxSize, Math.max(minSize, bytes));
+};
+
+/**
+ * Compute the steady-state throughput of a streamed download
+ *
+ * The first `warmupFraction` of the payload (TCP slow-start, buffering)
+ * is discarded: the throughput is the rate of the remaining bytes.
+ *
+ * @param timeline Bytes received over time, starting with the headers
+ * @param warmupFraction Fraction of the payload discarded as warm-up
+ * @returns Speed of the payload in Mbps or null if the timeline is too coarse
+ */
+export const _steadyStateThroughput = (
+    timeline: DownloadProgress[],
+    warmupFraction: number,
+): number | null => {
+    const last = timeline.at(-1);
+    if (!last?.bytes) return null;
+    const start = timeline.find((p) => p.bytes >= last.bytes * warmupFraction);
+    if (!start || start === last || last.time <= start.time) return null;
+    const bits = 8 * (last.bytes - start.bytes);
+    return bits / ((last.time - start.time) / 1_000) / 1_000_000;
+};
 
-    return classificationTable[classificationTable.length - 1].type;
+/**
+ * Read a response body chunk by chunk, without buffering it
+ * @param response Fetch response
+ * @param startTime Time the request was sent
+ * @returns Bytes received over time, starting with the headers
+ */
+const readBody = async (
+    response: Response,
+    startTime: number,
+): Promise<DownloadProgress[]> => {
+    const timeline: DownloadProgress[] = [
+        { time: performance.now() - startTime, bytes: 0 },
+    ];
+    if (!response.body) return timeline;
+    const reader = response.body.getReader();
+    let bytes = 0;
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        bytes += value.byteLength;
+        timeline.push({ time: performance.now() - startTime, bytes });
+    }
+    return timeline;
 };
 
 /**
- * Calculate median value from array of numbers
- * @param arr Array of numbers
- * @returns Median value
+ * Find the latest resource timing entry of a URL, resource timing is missing
+ * in some contexts (e.g. service workers of older browsers)
+ * @param url Resource URL
+ * @returns The entry or undefined if not available
  */
-export const _median = (arr: number[]): number => {
-    const mid = Math.floor(arr.length / 2);
-    return arr.length % 2 !== 0 ? arr[mid] : (arr[mid - 1] + arr[mid]) / 2;
+const findResourceTiming = (
+    url: string,
+): PerformanceResourceTiming | undefined => {
+    return performance.getEntriesByType?.('resource')
+        .findLast((p) => p.name === url) as
+            | PerformanceResourceTiming
+            | undefined;
 };
 
 export const _pseudoRandomHash = (length: number = 7): string => {
@@ -79,8 +427,8 @@ export const _pseudoRandomHash = (length: number = 7): string => {
  *   classificationTable: CLASSIFICATION,
  * });
  *
- * networkApi.addEventListener('change', (event) => {
- *   console.log('Connection type:', event.detail.effectiveType);
+ * networkApi.addEventListener('change', () => {
+ *   console.log('Connection type:', networkApi.effectiveType);
  * });
  * ```
  */
@@ -89,65 +437,226 @@ export function createNetworkInformation(
     services: NetworkInformationServices = {},
 ): NetworkInformationLike {
     // Configuration
-    const origin = options.origin ?? 'https://speed.cloudflare.com';
+    const backend = options.backend ??
+        createCloudflareBackend({ origin: options.origin });
     const estimatedServerTime = options.estimatedServerTime ?? 10;
     const estimatedHeaderFraction = options.estimatedHeaderFraction ?? 0.005;
-    const measurementCount = options.measurementCount ?? 2;
+    const adaptiveSizing = options.adaptiveSizing ?? false;
+    const measurementCount = options.measurementCount ??
+        (adaptiveSizing ? 6 : 2);
     const baseMeasurementSize = options.baseMeasurementSize ?? 100_000;
     const measurementSizeMultiplier = options.measurementSizeMultiplier ?? 2;
+    const warmupFraction = options.warmupFraction ?? 0.2;
+    const latencyProbeCount = Math.max(1, options.latencyProbeCount ?? 1);
+    const loadedLatency = options.loadedLatency ?? false;
+    const loadedLatencyInterval = options.loadedLatencyInterval ?? 200;
+    const targetProbeDuration = options.targetProbeDuration ?? 1_000;
+    const maxMeasurementSize = options.maxMeasurementSize ?? 10_000_000;
+    const convergenceTolerance = options.convergenceTolerance ?? 0.1;
+    const uploadMeasurement = options.uploadMeasurement ?? false;
+    const baseUploadSize = options.baseUploadSize ?? 50_000;
     const measurementInterval = options.measurementInterval ?? 30_000;
     const periodicMeasurement = options.periodicMeasurement ?? false;
-    const periodicInterval = Math.min(10_000, measurementInterval);
+    const minMeasurementInterval = options.minMeasurementInterval ??
+        Math.min(10_000, measurementInterval);
+    const maxMeasurementInterval = options.maxMeasurementInterval ??
+        Math.max(300_000, measurementInterval);
+    const measurementBackoff = options.measurementBackoff ?? 2;
+    const pauseWhenHidden = options.pauseWhenHidden ?? true;
+    const lowBatteryLevel = options.lowBatteryLevel ?? 0.2;
+    const passiveMeasurement = options.passiveMeasurement ?? false;
+    const passiveMinSamples = options.passiveMinSamples ?? 3;
+    const passiveMaxAge = options.passiveMaxAge ?? 60_000;
+    const passiveMinTransferSize = options.passiveMinTransferSize ?? 32_000;
+    const serviceWorkerSampling = options.serviceWorkerSampling ?? false;
     const classificationTable = options.classificationTable;
+    const tableErrors = validateClassificationTable(classificationTable)
+        .filter((diagnostic) => diagnostic.severity === 'error');
+    if (tableErrors.length > 0) {
+        throw new TypeError(
+            `Invalid classification table: ${
+                tableErrors.map((diagnostic) => diagnostic.message).join('; ')
+            }`,
+        );
+    }
+    const hysteresis = options.hysteresis ?? 0;
+    const stableCycles = options.stableCycles ?? 1;
+    const estimator = options.estimator ?? createMedianEstimator({
+        // Median of the latest cycle (or of the latest passive samples)
+        maxSamples: passiveMeasurement || serviceWorkerSampling
+            ? Math.max(measurementCount, passiveMinSamples)
+            : measurementCount,
+    });
+    const requestTimeout = options.requestTimeout ?? 20_000;
+    const cycleTimeout = options.cycleTimeout ?? 60_000;
     const autostart = options.autostart ?? true;
+    const changeEventDetail = options.changeEventDetail ?? false;
+    const minConfidence = options.minConfidence ?? 0;
+    const confidenceHalfLife = options.confidenceHalfLife ?? 300_000;
+    const outputShaping = options.outputShaping ?? OUTPUT_SHAPING_SPEC;
+    const outputNoise = options.outputNoise ?? 0;
+    const crossTab = options.crossTab ?? false;
+    const crossTabChannel = options.crossTabChannel ??
+        'network-information-api-polyfill';
+    const crossTabHeartbeatInterval = options.crossTabHeartbeatInterval ??
+        1_000;
+    const estimateStorage = options.estimateStorage;
+    const estimateMaxAge = options.estimateMaxAge ?? 300_000;
+    const typeProvider = options.typeProvider;
+    const typeHeuristics = options.typeHeuristics ?? false;
+    const sessionDataBudget = options.sessionDataBudget ?? Infinity;
+    const dailyDataBudget = options.dailyDataBudget ?? Infinity;
+    const dataBudgetStorageKey = options.dataBudgetStorageKey ??
+        'network-information-api-polyfill:data-budget';
+    const saveDataMediaQuery = options.saveDataMediaQuery ?? true;
+    const saveDataHeader = options.saveDataHeader;
+    const saveDataEffectiveTypes = options.saveDataEffectiveTypes ?? [];
+    const saveDataStorageKey = options.saveDataStorageKey ??
+        'network-information-api-polyfill:save-data';
     const fetch = services.fetch ?? globalThis.fetch.bind(null);
+    const PerformanceObserver = services.PerformanceObserver ??
+        (globalThis as { PerformanceObserver?: PerformanceObserverConstructor })
+            .PerformanceObserver;
+    const matchMedia = services.matchMedia ??
+        (globalThis as {
+            matchMedia?: (query: string) => MediaQueryListLike;
+        }).matchMedia?.bind(globalThis);
+    const localStorage = services.localStorage ??
+        getWebStorage('localStorage');
+    const sessionStorage = services.sessionStorage ??
+        getWebStorage('sessionStorage');
+    const globalScope = services.globalScope ??
+        (typeof globalThis.addEventListener === 'function'
+            ? globalThis as unknown as GlobalScopeLike
+            : undefined);
+    const BroadcastChannel = services.BroadcastChannel ??
+        (globalThis as { BroadcastChannel?: BroadcastChannelConstructor })
+            .BroadcastChannel;
+    const serviceWorker = services.serviceWorker ??
+        (globalThis.navigator as {
+            serviceWorker?: ServiceWorkerContainerLike;
+        } | undefined)?.serviceWorker;
+    const document = services.document ??
+        (globalThis as { document?: DocumentLike }).document;
+    const getBattery = services.getBattery ??
+        (globalThis.navigator as {
+            getBattery?: () => Promise<BatteryManagerLike>;
+        } | undefined)?.getBattery?.bind(globalThis.navigator);
+
+    // Usage is only persisted when capped
+    const persistDataUsage = Number.isFinite(sessionDataBudget) ||
+        Number.isFinite(dailyDataBudget);
+    const dataBudget = createDataBudget({
+        sessionLimit: sessionDataBudget,
+        dailyLimit: dailyDataBudget,
+        storageKey: dataBudgetStorageKey,
+        localStorage: persistDataUsage ? localStorage : undefined,
+        sessionStorage: persistDataUsage ? sessionStorage : undefined,
+    });
+    // Probes are not shrunk below this size in bytes, results would be meaningless
+    const minProbeSize = 10_000;
+    // Drawn once, so that the exposed values do not average the noise out
+    const noiseFactor = 1 + (2 * Math.random() - 1) * outputNoise;
 
     // State
     let downlink: number | undefined;
     let uplink: number | undefined;
     let rtt: number | undefined;
     let effectiveType: EffectiveConnectionType | undefined;
+    let customType: string | undefined;
+    let classification: ConnectionClassification | undefined;
     let saveData: boolean = false;
     let type: NetworkType = 'unknown';
+    let downlinkMax: number = Infinity;
+    let stale: boolean = false;
+    let latency: LatencyStats | undefined;
+    let loadedRtt: number | undefined;
+    let sampleConfidence: number | undefined;
+    let estimateTimestamp: number = 0;
+
+    let online: boolean = globalScope?.navigator?.onLine ?? true;
+    let unsubscribeTypeProvider: (() => void) | undefined;
 
+    let saveDataPreference: boolean | null = null;
+    let saveDataMediaMatches: boolean = false;
+    let saveDataHint: boolean = false;
+    let saveDataMediaQueryList: MediaQueryListLike | undefined;
+
+    let pendingClassification: ConnectionClassification | undefined;
+    let pendingCycles: number = 0;
+
+    let disposed: boolean = false;
     let measuring: boolean = false;
+    let cycleController: AbortController | undefined;
     let lastMeasurement: number = 0;
-    let periodicTimer: number | undefined;
+    let periodicTimer: ReturnType<typeof setTimeout> | undefined;
+    let periodicRunning: boolean = false;
+    let periodicDelay: number = measurementInterval;
+    let battery: BatteryManagerLike | undefined;
     let delayTimers: ReturnType<typeof setTimeout>[] = [];
+    let passiveSamples: NetworkMeasurement[] = [];
+    let stopObserving: (() => void) | undefined;
+    let coordinator: TabCoordinator | undefined;
+    const probeUrls = new Set<string>();
 
     // Event handling
-    const eventTarget = new EventTarget();
+    const eventTarget = Reflect.construct(
+        EventTarget,
+        [],
+        NetworkInformation,
+    ) as NetworkInformationLike;
+    let onchange: NetworkInformationLike['onchange'] = null;
+    let onchangeListening: boolean = false;
 
     // Private functions
 
-    const delay = (ms: number): Promise<void> => {
+    const delay = (ms: number, signal?: AbortSignal): Promise<void> => {
         return new Promise((resolve) => {
-            const timer = setTimeout(() => {
+            if (signal?.aborted) return resolve();
+            const done = () => {
+                clearTimeout(timer);
                 delayTimers = delayTimers.filter((t) => t !== timer);
+                signal?.removeEventListener('abort', done);
                 resolve();
-            }, ms);
+            };
+            const timer = setTimeout(done, ms);
             delayTimers.push(timer);
+            signal?.addEventListener('abort', done);
         });
     };
 
     /**
      * Dispatch a network change event
+     *
+     * Per spec 'change' events are plain events, values are read off the
+     * object, unless `changeEventDetail` is enabled.
+     *
      * @param type Event type
      * @param data Event data
      */
     const dispatchNetworkEvent = (
         eventType: string,
-        data: NetworkChangeEventDetail = {},
+        data: NetworkChangeEventDetail | DataBudgetUsage = {},
     ): void => {
-        eventTarget.dispatchEvent(new CustomEvent(eventType, { detail: data }));
+        eventTarget.dispatchEvent(
+            eventType === 'change' && !changeEventDetail
+                ? new Event(eventType)
+                : new CustomEvent(eventType, { detail: data }),
+        );
     };
 
     /**
-     * Check if measurement can be performed
+     * Remember a probe URL, so that its sample is not taken for the page's
+     * own traffic. Only URLs a running sampler will report are kept: they
+     * are forgotten once reported, or when the probe fails.
      */
-    const canPerformMeasurement = (): boolean => {
-        return !measuring &&
-            Date.now() - lastMeasurement > measurementInterval;
+    const trackProbeUrl = (url: string): void => {
+        if (
+            stopObserving ||
+            (serviceWorkerSampling && serviceWorker?.controller)
+        ) {
+            probeUrls.add(url);
+        }
     };
 
     /**
@@ -158,30 +667,20 @@ export function createNetworkInformation(
         bytes: number,
         index: number,
     ): string => {
-        return `${origin}/__down?measId=${uid}&bytes=${bytes}&i=${index}`;
-    };
-
-    /**
-     * Extract server processing time from response headers
-     * @param res Fetch response object
-     * @returns Server time in milliseconds or null
-     */
-    const getServerTimeFromResponse = (res: Response): number | null => {
-        const serverTiming = res.headers.get('server-timing');
-        if (serverTiming) {
-            const match = serverTiming.match(/.*dur=([0-9.]+)/);
-            if (match) return +match[1];
-        }
-        return null;
+        const url = backend.createUrl({ uid, bytes, index });
+        trackProbeUrl(url);
+        return url;
     };
 
     /**
      * Build timing information from fetch response
      * @param res Fetch response object
+     * @param numBytes Expected payload size in bytes
      * @returns Timing data or null if unavailable
      */
     const buildTiming = (
         res: Response,
+        numBytes: number,
         startTime?: number,
         endTime?: number,
     ): {
@@ -190,18 +689,9 @@ export function createNetworkInformation(
         duration: number;
         perf?: PerformanceResourceTiming;
     } | null => {
-        const perf = performance.getEntriesByType('resource')
-            .find((p) => p.name === res.url) as PerformanceResourceTiming;
+        const perf = findResourceTiming(res.url);
 
-        let url: URL;
-        let numBytes: number;
-        try {
-            url = new URL(res.url);
-            numBytes = parseInt(url.searchParams.get('bytes') || '0', 10);
-        } catch {
-            numBytes = 0;
-        }
-        const serverTime = getServerTimeFromResponse(res) ||
+        const serverTime = backend.getServerTime(res) ||
             estimatedServerTime;
 
         let ping: number;
@@ -243,50 +733,334 @@ export function createNetworkInformation(
         };
     };
 
+    /**
+     * Account probe traffic against the data budget
+     * @param bytes Transferred bytes
+     */
+    const recordTransfer = (bytes: number): void => {
+        const now = Date.now();
+        dataBudget.record(bytes, now);
+        dispatchNetworkEvent('budget', dataBudget.getUsage(now));
+    };
+
+    /**
+     * Shrink a probe to fit the remaining data budget
+     * @param bytes Planned size in bytes
+     * @param getPayloadSize Bytes actually transferred for a requested size
+     * @returns The size to request, 0 if no useful probe fits
+     */
+    const fitProbeSize = (
+        bytes: number,
+        getPayloadSize: (bytes: number) => number = backend.getPayloadSize,
+    ): number => {
+        const { remaining } = dataBudget.getUsage(Date.now());
+        const minSize = Math.min(bytes, minProbeSize);
+        let size = bytes;
+        while (
+            size >= minSize &&
+            getPayloadSize(size) * (1 + estimatedHeaderFraction) > remaining
+        ) {
+            size = Math.floor(size / 2);
+        }
+        return size >= minSize ? size : 0;
+    };
+
+    /**
+     * Fetch a probe and stream its body, giving up after `requestTimeout`
+     *
+     * Transferred bytes are accounted against the data budget, failed
+     * probes count for their full size.
+     *
+     * @param url Probe URL
+     * @param init Fetch options
+     * @param signal Signal aborting the measurement cycle
+     * @param expectedBytes Payload size in bytes
+     * @returns The response and its body timeline, or null if the probe timed out
+     */
+    const fetchProbe = async (
+        url: string,
+        init: RequestInit,
+        signal: AbortSignal,
+        expectedBytes: number,
+    ): Promise<
+        { response: Response; timeline: DownloadProgress[] } | null
+    > => {
+        const startTime = performance.now();
+        const controller = new AbortController();
+        const abort = () => controller.abort(signal.reason);
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort(
+                new DOMException('Probe timed out', 'TimeoutError'),
+            );
+        }, requestTimeout);
+        signal.addEventListener('abort', abort);
+
+        try {
+            if (signal.aborted) abort();
+            const response = await fetch(url, {
+                ...init,
+                signal: controller.signal,
+            });
+            const timeline = await readBody(response, startTime);
+            const receivedBytes = timeline[timeline.length - 1].bytes;
+            const entry = findResourceTiming(url);
+            const sentBytes = typeof init.body === 'string'
+                ? init.body.length
+                : 0;
+            recordTransfer(
+                sentBytes + (entry?.transferSize ||
+                    Math.round(
+                        receivedBytes * (1 + estimatedHeaderFraction),
+                    )),
+            );
+            if (saveDataHeader) {
+                const hint = response.headers.get(saveDataHeader);
+                if (hint !== null) {
+                    saveDataHint = hint.trim().toLowerCase() === 'on';
+                }
+            }
+            return { response, timeline };
+        } catch (error) {
+            // Failed probes may not be reported, nothing will forget them
+            probeUrls.delete(url);
+            recordTransfer(expectedBytes);
+            if (timedOut) return null;
+            throw error;
+        } finally {
+            clearTimeout(timer);
+            signal.removeEventListener('abort', abort);
+        }
+    };
+
+    /**
+     * Upper bound of the throughput of a probe that did not complete in time
+     * @param bytes Payload size in bytes
+     * @returns Speed in Mbps
+     */
+    const timedOutMbps = (bytes: number): number => {
+        const bits = 8 * (bytes * (1 + estimatedHeaderFraction));
+        return bits / (requestTimeout / 1_000) / 1_000_000;
+    };
+
     /**
      * Perform latency measurement
      */
     const measureLatency = async (
         uid: string,
         index: number,
-    ): Promise<{ ping: number } | null> => {
+        signal: AbortSignal,
+    ): Promise<{ ping: number; timedOut?: boolean } | null> => {
         const startTime = performance.now();
-        const response = await fetch(
+        const probe = await fetchProbe(
             createMeasurementUrl(uid, 0, index),
+            {},
+            signal,
+            0,
         );
-        await response.text();
+        // No response in time: the RTT is at least the timeout
+        if (!probe) return { ping: requestTimeout, timedOut: true };
         const endTime = performance.now();
 
-        const timing = buildTiming(response, startTime, endTime);
+        const timing = buildTiming(probe.response, 0, startTime, endTime);
         return timing ? { ping: timing.ping } : null;
     };
 
+    /**
+     * Perform the multi-ping latency phase of a measurement
+     *
+     * Failed probes are counted rather than failing the phase. After a
+     * timeout the phase stops, the next probes would time out as well.
+     *
+     * @returns Median RTT with statistics, or null if no probe succeeded
+     */
+    const measureLatencyPhase = async (
+        uid: string,
+        index: number,
+        signal: AbortSignal,
+    ): Promise<
+        { ping: number; timedOut?: boolean; latency?: LatencyStats } | null
+    > => {
+        const rtts: number[] = [];
+        let failed = 0;
+        let timedOut = false;
+
+        for (let i = 0; i < latencyProbeCount && !timedOut; i++) {
+            try {
+                // Own URL per ping, not served from the HTTP cache
+                const result = await measureLatency(
+                    `${uid}-ping-${i}`,
+                    index,
+                    signal,
+                );
+                if (result?.timedOut) timedOut = true;
+                if (result && !result.timedOut) {
+                    rtts.push(result.ping);
+                } else {
+                    failed++;
+                }
+            } catch (error) {
+                if (signal.aborted) throw error;
+                failed++;
+            }
+        }
+
+        if (!rtts.length) {
+            // No response in time: the RTT is at least the timeout
+            return timedOut ? { ping: requestTimeout, timedOut } : null;
+        }
+        const stats = _latencyStats(rtts, failed);
+        return latencyProbeCount > 1
+            ? { ping: stats.rttMedian, latency: stats }
+            : { ping: stats.rttMedian };
+    };
+
+    /**
+     * Send latency probes one after the other until stopped, e.g. while
+     * a download saturates the link
+     *
+     * Each probe gets its own uid, so that concurrent resource timings are
+     * not confused with each other.
+     *
+     * @returns Function stopping the probes, resolving to their median RTT
+     */
+    const probeLoadedLatency = (
+        uid: string,
+        index: number,
+        signal: AbortSignal,
+    ): () => Promise<number | undefined> => {
+        const controller = new AbortController();
+        const abort = () => controller.abort(signal.reason);
+        signal.addEventListener('abort', abort);
+        const rtts: number[] = [];
+
+        const loop = (async () => {
+            for (let n = 0; !controller.signal.aborted; n++) {
+                // Let the download ramp up first
+                await delay(loadedLatencyInterval, controller.signal);
+                if (controller.signal.aborted) break;
+                try {
+                    const result = await measureLatency(
+                        `${uid}-${n}`,
+                        index,
+                        controller.signal,
+                    );
+                    if (result && !result.timedOut) rtts.push(result.ping);
+                } catch {
+                    // Failed or stopped, the next probe may succeed
+                }
+            }
+        })();
+
+        return async () => {
+            controller.abort(
+                new DOMException('Download completed', 'AbortError'),
+            );
+            signal.removeEventListener('abort', abort);
+            await loop;
+            return rtts.length
+                ? _median(rtts.sort((a, b) => a - b))
+                : undefined;
+        };
+    };
+
     /**
      * Perform download measurement
+     *
+     * The throughput is the steady-state rate of the streamed body, or the
+     * average rate over the whole request when the body arrived in too few
+     * chunks to tell the warm-up apart.
      */
     const measureDownload = async (
         uid: string,
         measurementSize: number,
         index: number,
+        signal: AbortSignal,
     ): Promise<
-        { mbps: number; networkTime: number; totalTime: number } | null
+        {
+            mbps: number;
+            payloadSize: number;
+            networkTime: number;
+            totalTime: number;
+            timedOut?: boolean;
+            timeline?: DownloadProgress[];
+        } | null
     > => {
         const startTime = performance.now();
-        const response = await fetch(
+        const probe = await fetchProbe(
             createMeasurementUrl(uid, measurementSize, index),
+            {},
+            signal,
+            backend.getPayloadSize(measurementSize),
         );
-        await response.text();
+        if (!probe) {
+            const payloadSize = backend.getPayloadSize(measurementSize);
+            return {
+                mbps: timedOutMbps(payloadSize),
+                payloadSize,
+                networkTime: requestTimeout,
+                totalTime: requestTimeout,
+                timedOut: true,
+            };
+        }
         const endTime = performance.now();
         const totalTime = endTime - startTime;
 
-        const serverTime = getServerTimeFromResponse(response) ||
+        const { response, timeline } = probe;
+        const serverTime = backend.getServerTime(response) ||
             estimatedServerTime;
         const networkTime = Math.max(1, totalTime - serverTime);
-        const bits = 8 * (measurementSize * (1 + estimatedHeaderFraction));
-        const bps = bits / (networkTime / 1_000);
-        const mbps = bps / 1_000_000;
+        const payloadSize = backend.getPayloadSize(measurementSize);
+        const steadyMbps = _steadyStateThroughput(timeline, warmupFraction);
+        const bits = 8 * (payloadSize * (1 + estimatedHeaderFraction));
+        const mbps = steadyMbps === null
+            ? bits / (networkTime / 1_000) / 1_000_000
+            : steadyMbps * (1 + estimatedHeaderFraction);
+
+        return { mbps, payloadSize, networkTime, totalTime, timeline };
+    };
+
+    /**
+     * Perform upload measurement
+     * @returns Uplink timing or null if the backend has no upload support
+     */
+    const measureUpload = async (
+        uid: string,
+        uploadSize: number,
+        index: number,
+        signal: AbortSignal,
+    ): Promise<
+        { mbps: number; networkTime: number; timedOut?: boolean } | null
+    > => {
+        if (!backend.createUploadUrl) return null;
+
+        const body = '0'.repeat(uploadSize);
+        const url = backend.createUploadUrl({ uid, bytes: uploadSize, index });
+        trackProbeUrl(url);
+        const startTime = performance.now();
+        const probe = await fetchProbe(
+            url,
+            { method: 'POST', body },
+            signal,
+            uploadSize,
+        );
+        if (!probe) {
+            return {
+                mbps: timedOutMbps(uploadSize),
+                networkTime: requestTimeout,
+                timedOut: true,
+            };
+        }
+        const endTime = performance.now();
 
-        return { mbps, networkTime, totalTime };
+        const serverTime = backend.getServerTime(probe.response) ||
+            estimatedServerTime;
+        const networkTime = Math.max(1, endTime - startTime - serverTime);
+        const bits = 8 * (uploadSize * (1 + estimatedHeaderFraction));
+        const mbps = bits / (networkTime / 1_000) / 1_000_000;
+
+        return { mbps, networkTime };
     };
 
     /**
@@ -297,31 +1071,93 @@ export function createNetworkInformation(
         uid: string,
         measurementSize: number,
         index: number,
+        signal: AbortSignal,
     ): Promise<NetworkMeasurement | null> => {
         try {
-            const latencyResult = await measureLatency(
+            const latencyResult = await measureLatencyPhase(
                 uid,
                 index,
+                signal,
             );
             if (!latencyResult) return null;
 
-            await delay(50);
+            let downloadResult: Awaited<ReturnType<typeof measureDownload>>;
+            let loadedRttResult: number | undefined;
+            if (latencyResult.timedOut) {
+                // Not even the headers made it in time, neither would the payload
+                const payloadSize = backend.getPayloadSize(measurementSize);
+                downloadResult = {
+                    mbps: timedOutMbps(payloadSize),
+                    payloadSize,
+                    networkTime: requestTimeout,
+                    totalTime: requestTimeout,
+                    timedOut: true,
+                };
+            } else {
+                await delay(50, signal);
 
-            const downloadResult = await measureDownload(
-                uid,
-                measurementSize,
-                index,
-            );
+                const stopLoadedLatency = loadedLatency
+                    ? probeLoadedLatency(uid, index, signal)
+                    : undefined;
+                try {
+                    downloadResult = await measureDownload(
+                        uid,
+                        measurementSize,
+                        index,
+                        signal,
+                    );
+                } finally {
+                    loadedRttResult = await stopLoadedLatency?.();
+                }
+            }
             if (!downloadResult) return null;
 
-            const measurement = {
+            let uploadResult: { mbps: number; timedOut?: boolean } | null =
+                null;
+            const uploadSize = uploadMeasurement && !downloadResult.timedOut
+                ? fitProbeSize(
+                    baseUploadSize * Math.pow(measurementSizeMultiplier, index),
+                    (bytes) => bytes,
+                )
+                : 0;
+            if (uploadSize) {
+                await delay(50, signal);
+                try {
+                    uploadResult = await measureUpload(
+                        uid,
+                        uploadSize,
+                        index,
+                        signal,
+                    );
+                } catch (error) {
+                    if (signal.aborted) throw error;
+                    // The upload endpoint failed (e.g. CORS), keep the download
+                    uploadResult = null;
+                }
+            }
+
+            const measurement: NetworkMeasurement = {
                 rtt: latencyResult.ping,
                 downlink: downloadResult.mbps,
-                measurementSize,
+                uplink: uploadResult?.mbps,
+                measurementSize: downloadResult.payloadSize,
                 duration: downloadResult.networkTime,
                 realDuration: downloadResult.totalTime,
                 timestamp: Date.now(),
+                source: 'active',
             };
+            if (downloadResult.timedOut || uploadResult?.timedOut) {
+                measurement.timedOut = true;
+            }
+            if (downloadResult.timeline) {
+                measurement.timeline = downloadResult.timeline;
+            }
+            if (latencyResult.latency) {
+                measurement.latency = latencyResult.latency;
+            }
+            if (loadedRttResult !== undefined) {
+                measurement.loadedRtt = loadedRttResult;
+            }
             dispatchNetworkEvent('measurement', measurement);
             return measurement;
         } catch {
@@ -331,40 +1167,336 @@ export function createNetworkInformation(
 
     /**
      * Measure network speed using multiple test sizes
+     *
+     * With `adaptiveSizing`, each probe is sized from the previous
+     * throughput to last `targetProbeDuration`, and the cycle stops once
+     * two consecutive downloads agree within `convergenceTolerance`.
      */
-    const measureNetworkSpeed = async (): Promise<NetworkMeasurement[]> => {
+    const measureNetworkSpeed = async (
+        signal: AbortSignal,
+    ): Promise<NetworkMeasurement[]> => {
         const uid = _pseudoRandomHash(5);
         const measurements: NetworkMeasurement[] = [];
+        let nextSize = baseMeasurementSize;
 
         for (let i = 0; i < measurementCount; i++) {
-            const measurementSize = baseMeasurementSize *
-                Math.pow(measurementSizeMultiplier, i);
+            if (signal.aborted) break;
+
+            const measurementSize = fitProbeSize(
+                adaptiveSizing ? nextSize : baseMeasurementSize *
+                    Math.pow(measurementSizeMultiplier, i),
+            );
+            // Out of data budget
+            if (!measurementSize) break;
 
             const measurement = await performSingleMeasurement(
                 uid,
                 measurementSize,
                 i,
+                signal,
             );
 
+            // Bigger probes would time out as well
+            if (measurement?.timedOut) {
+                measurements.push(measurement);
+                break;
+            }
+
             if (measurement) {
                 measurements.push(measurement);
                 if (i === 0 && measurementCount > 1) {
+                    latency = measurement.latency ?? latency;
+                    loadedRtt = measurement.loadedRtt ?? loadedRtt;
+                    setConfidenceSamples([measurement]);
                     updateNetworkProperties(
                         measurement.downlink,
                         measurement.rtt,
                         true,
+                        measurement.uplink,
                     );
                 }
             }
 
+            if (measurement && adaptiveSizing) {
+                // Consecutive downloads agree, more probes would not help
+                const previous = measurements.at(-2);
+                if (
+                    previous &&
+                    Math.abs(measurement.downlink - previous.downlink) <=
+                        convergenceTolerance * previous.downlink
+                ) {
+                    break;
+                }
+                nextSize = _nextProbeSize(
+                    measurement.downlink,
+                    targetProbeDuration,
+                    Math.min(baseMeasurementSize, minProbeSize),
+                    maxMeasurementSize,
+                );
+            }
+
             if (i < measurementCount - 1) {
-                await delay(200);
+                await delay(200, signal);
             }
         }
 
         return measurements;
     };
 
+    /**
+     * Decide the reported classification, requiring `stableCycles` agreeing
+     * updates before moving away from the current one
+     * @param candidate Entry the latest values classify as
+     * @param isPreliminary Whether the values are preliminary
+     */
+    const debounceClassification = (
+        candidate: ConnectionClassification,
+        isPreliminary: boolean,
+    ): ConnectionClassification => {
+        if (classification === undefined || stableCycles <= 1) {
+            return candidate;
+        }
+        if (candidate === classification) {
+            pendingClassification = undefined;
+            pendingCycles = 0;
+            return classification;
+        }
+        if (isPreliminary) return classification;
+
+        if (candidate === pendingClassification) {
+            pendingCycles++;
+        } else {
+            pendingClassification = candidate;
+            pendingCycles = 1;
+        }
+        if (pendingCycles < stableCycles) return classification;
+
+        pendingClassification = undefined;
+        pendingCycles = 0;
+        return candidate;
+    };
+
+    /**
+     * Report a classification entry
+     */
+    const applyClassification = (entry: ConnectionClassification): void => {
+        classification = entry;
+        effectiveType = entry.type;
+        customType = entry.customType;
+    };
+
+    /**
+     * Compute `saveData`: the user preference wins, otherwise any source enables it
+     */
+    const computeSaveData = (): boolean => {
+        return saveDataPreference ?? (
+            saveDataMediaMatches ||
+            saveDataHint ||
+            (effectiveType !== undefined &&
+                saveDataEffectiveTypes.includes(effectiveType))
+        );
+    };
+
+    /**
+     * Compute the connection type: offline, then provider hint, then heuristics
+     */
+    const computeType = (): Required<NetworkTypeHint> => {
+        if (!online) return { type: 'none', downlinkMax: 0 };
+
+        const hint = typeProvider?.getType();
+        if (hint) {
+            return {
+                type: hint.type,
+                downlinkMax: hint.downlinkMax ??
+                    (hint.type === 'none' ? 0 : Infinity),
+            };
+        }
+        if (typeHeuristics) {
+            return {
+                type: _inferNetworkType(estimator.getSamples(Date.now())),
+                downlinkMax: Infinity,
+            };
+        }
+        return { type: 'unknown', downlinkMax: Infinity };
+    };
+
+    /**
+     * Recompute the properties derived from other sources than measurements
+     */
+    const applyDerivedProperties = (): void => {
+        saveData = computeSaveData();
+        ({ type, downlinkMax } = computeType());
+    };
+
+    /**
+     * Shape an RTT before exposing it
+     */
+    const shapeRtt = (
+        value: number | undefined,
+        shaping: OutputShaping = outputShaping,
+    ): number | undefined => {
+        return value === undefined ? undefined : _shapeValue(
+            value * noiseFactor,
+            shaping.rttStep,
+            shaping.maxRtt,
+        );
+    };
+
+    /**
+     * Shape a speed before exposing it
+     */
+    const shapeSpeed = (
+        value: number | undefined,
+        shaping: OutputShaping = outputShaping,
+    ): number | undefined => {
+        return value === undefined ? undefined : _shapeValue(
+            value * noiseFactor,
+            shaping.downlinkStep,
+            shaping.maxDownlink,
+        );
+    };
+
+    /**
+     * Shape latency statistics before exposing them, like the RTT
+     */
+    const shapeLatency = (
+        stats: LatencyStats | undefined,
+        shaping: OutputShaping = outputShaping,
+    ): LatencyStats | undefined => {
+        return stats === undefined ? undefined : {
+            rttMin: shapeRtt(stats.rttMin, shaping)!,
+            rttMedian: shapeRtt(stats.rttMedian, shaping)!,
+            rttP90: shapeRtt(stats.rttP90, shaping)!,
+            jitter: shapeRtt(stats.jitter, shaping)!,
+            failedRatio: stats.failedRatio,
+        };
+    };
+
+    /**
+     * Get the confidence in the current values, decaying with their age
+     */
+    const getConfidence = (): number | undefined => {
+        if (sampleConfidence === undefined) return undefined;
+        const age = Math.max(0, Date.now() - estimateTimestamp);
+        const confidence = sampleConfidence *
+            Math.pow(0.5, age / confidenceHalfLife);
+        return Math.round(confidence * 100) / 100;
+    };
+
+    /**
+     * Set what the confidence is computed from
+     * @param samples Samples the estimate is based on
+     */
+    const setConfidenceSamples = (samples: NetworkMeasurement[]): void => {
+        sampleConfidence = _sampleConfidence(samples);
+        estimateTimestamp = Math.max(
+            estimateTimestamp,
+            ...samples.map((s) => s.timestamp),
+        );
+    };
+
+    /**
+     * Get the current values as exposed to the page
+     * @param shaping Rounding and caps, defaults to the configured ones
+     */
+    const getConnectionInfo = (
+        shaping: OutputShaping = outputShaping,
+    ): ConnectionInfo => {
+        const info = getRawConnectionInfo();
+        return {
+            ...info,
+            downlink: shapeSpeed(info.downlink, shaping),
+            uplink: shapeSpeed(info.uplink, shaping),
+            rtt: shapeRtt(info.rtt, shaping),
+            latency: shapeLatency(info.latency, shaping),
+            loadedRtt: shapeRtt(info.loadedRtt, shaping),
+        };
+    };
+
+    /**
+     * Get the current values before output shaping
+     */
+    const getRawConnectionInfo = (): ConnectionInfo => {
+        return {
+            downlink,
+            uplink,
+            rtt,
+            effectiveType,
+            customType,
+            saveData,
+            type,
+            downlinkMax,
+            stale,
+            latency,
+            loadedRtt,
+            confidence: getConfidence(),
+        };
+    };
+
+    /**
+     * Dispatch a 'change' event with the current values
+     * @param isPreliminary Whether the values are preliminary
+     */
+    const dispatchChange = (isPreliminary?: boolean): void => {
+        dispatchNetworkEvent('change', {
+            ...getConnectionInfo(),
+            type,
+            preliminary: isPreliminary,
+        });
+    };
+
+    /**
+     * Recompute derived properties between measurements, notifying if they changed
+     */
+    const refreshDerivedProperties = (): void => {
+        const prevSaveData = saveData;
+        const prevType = type;
+        const prevDownlinkMax = downlinkMax;
+        applyDerivedProperties();
+        if (
+            prevSaveData !== saveData || prevType !== type ||
+            prevDownlinkMax !== downlinkMax
+        ) {
+            dispatchChange();
+        }
+    };
+
+    /**
+     * Handle `prefers-reduced-data` changes
+     */
+    const handleReducedDataChange = (event: { matches: boolean }): void => {
+        saveDataMediaMatches = event.matches;
+        refreshDerivedProperties();
+    };
+
+    /**
+     * Handle 'online' events, measuring right away if the instance is in use
+     */
+    const handleOnline = (): void => {
+        if (online) return;
+        online = true;
+        refreshDerivedProperties();
+        if (autostart || lastMeasurement > 0) {
+            performMeasurement();
+        }
+    };
+
+    /**
+     * Handle 'offline' events, suspending probes and dropping stale samples
+     */
+    const handleOffline = (): void => {
+        if (!online) return;
+        online = false;
+        cycleController?.abort(
+            new DOMException('Network went offline', 'AbortError'),
+        );
+        cycleController = undefined;
+        measuring = false;
+        estimator.clear();
+        passiveSamples = [];
+        refreshDerivedProperties();
+    };
+
     /**
      * Update network properties with common logic
      */
@@ -372,31 +1504,193 @@ export function createNetworkInformation(
         newDownlink: number,
         newRtt: number,
         isPreliminary: boolean = false,
+        newUplink?: number,
     ): void => {
-        const prevEffectiveType = effectiveType;
+        const prevClassification = classification;
+        const prevSaveData = saveData;
+        const prevType = type;
+        const prevDownlinkMax = downlinkMax;
+        // Not enough evidence yet, report as preliminary
+        const lowConfidence = (getConfidence() ?? 0) < minConfidence;
+        if (lowConfidence) isPreliminary = true;
 
         downlink = newDownlink;
         rtt = newRtt;
-        uplink = newDownlink * 0.5;
-        effectiveType = _classifyConnection(
-            classificationTable,
-            newDownlink,
-            newRtt,
+        stale = false;
+        // Without upload probes the uplink can only be estimated
+        uplink = newUplink ?? newDownlink * 0.5;
+        const candidate = debounceClassification(
+            _classifyEntry(
+                classificationTable,
+                {
+                    downlink: newDownlink,
+                    rtt: newRtt,
+                    // Estimated uplinks would only mirror the downlink
+                    uplink: newUplink,
+                    jitter: latency?.jitter,
+                    loadedRtt,
+                },
+                classification,
+                hysteresis,
+            ),
+            isPreliminary,
+        );
+        // Not enough evidence to move away from a known classification
+        applyClassification(
+            lowConfidence && classification ? classification : candidate,
         );
 
-        if (prevEffectiveType !== effectiveType || !isPreliminary) {
-            dispatchNetworkEvent('change', {
-                downlink,
+        applyDerivedProperties();
+
+        if (
+            prevClassification !== classification ||
+            prevSaveData !== saveData ||
+            prevType !== type || prevDownlinkMax !== downlinkMax ||
+            !isPreliminary
+        ) {
+            dispatchChange(isPreliminary);
+        }
+        if (!isPreliminary) {
+            saveEstimate();
+        }
+        if (coordinator?.isLeader()) {
+            coordinator.publish({
+                downlink: newDownlink,
+                rtt: newRtt,
                 uplink,
-                rtt,
-                effectiveType,
+                latency,
+                loadedRtt,
+                sampleConfidence,
+                timestamp: estimateTimestamp,
                 preliminary: isPreliminary,
             });
         }
     };
 
     /**
-     * Update network properties from all measurements using median values
+     * Whether another tab measures for this one
+     */
+    const isFollower = (): boolean => {
+        return coordinator !== undefined && !coordinator.isLeader();
+    };
+
+    /**
+     * Apply a result shared by the leader tab
+     */
+    const handleCrossTabResult = (result: CrossTabResult): void => {
+        latency = result.latency ?? latency;
+        loadedRtt = result.loadedRtt ?? loadedRtt;
+        sampleConfidence = result.sampleConfidence ?? sampleConfidence;
+        estimateTimestamp = result.timestamp ?? Date.now();
+        updateNetworkProperties(
+            result.downlink,
+            result.rtt,
+            result.preliminary,
+            result.uplink,
+        );
+    };
+
+    /**
+     * Measure on taking over the leadership if nobody has measured yet
+     */
+    const handleLeaderChange = (leader: boolean): void => {
+        if (leader && autostart && downlink === undefined) {
+            performMeasurement();
+        }
+    };
+
+    /**
+     * Persist the current estimate
+     */
+    const saveEstimate = (): void => {
+        if (!estimateStorage || downlink === undefined || rtt === undefined) {
+            return;
+        }
+        try {
+            Promise.resolve(
+                estimateStorage.save({
+                    downlink,
+                    rtt,
+                    uplink,
+                    timestamp: Date.now(),
+                }),
+            ).catch(() => {
+                // Silent failure
+            });
+        } catch {
+            // Silent failure
+        }
+    };
+
+    /**
+     * Apply a persisted estimate, unless measured meanwhile
+     * @param estimate Persisted estimate
+     * @returns Whether current values are fresh enough to skip the initial probe
+     */
+    const applyPersistedEstimate = (
+        estimate: PersistedEstimate | undefined,
+    ): boolean => {
+        if (downlink !== undefined) return true;
+        if (!estimate) return false;
+
+        downlink = estimate.downlink;
+        rtt = estimate.rtt;
+        uplink = estimate.uplink ?? estimate.downlink * 0.5;
+        stale = Date.now() - estimate.timestamp > estimateMaxAge;
+        // As much evidence as a single sample of that age
+        sampleConfidence = _sampleConfidence([estimate]);
+        estimateTimestamp = estimate.timestamp;
+        applyClassification(
+            _classifyEntry(classificationTable, {
+                downlink,
+                rtt,
+                uplink: estimate.uplink,
+            }),
+        );
+        applyDerivedProperties();
+        dispatchChange();
+        return !stale;
+    };
+
+    /**
+     * Hydrate the last persisted estimate, synchronously if the storage allows
+     * @returns Whether values are fresh enough to skip the initial probe
+     */
+    const hydrateEstimate = (): boolean | Promise<boolean> => {
+        if (!estimateStorage) return false;
+        try {
+            const loaded = estimateStorage.load();
+            if (loaded instanceof Promise) {
+                return loaded.then(applyPersistedEstimate, () => false);
+            }
+            return applyPersistedEstimate(loaded);
+        } catch {
+            return false;
+        }
+    };
+
+    /**
+     * Update network properties from an estimator's current estimate
+     * @param source Estimator, defaults to the configured one
+     */
+    const updateFromEstimator = (
+        source: NetworkEstimator = estimator,
+    ): void => {
+        const now = Date.now();
+        const estimate = source.estimate(now);
+        if (!estimate) return;
+        setConfidenceSamples(source.getSamples(now));
+
+        updateNetworkProperties(
+            estimate.downlink,
+            estimate.rtt,
+            false,
+            estimate.uplink,
+        );
+    };
+
+    /**
+     * Update network properties from a new batch of measurements
      * @param measurements Array of measurement results
      */
     const updateFromMeasurements = (
@@ -404,34 +1698,196 @@ export function createNetworkInformation(
     ): void => {
         if (measurements.length === 0) return;
 
-        const rtts = measurements.map((m) => m.rtt).sort((a, b) => a - b);
-        const downlinks = measurements.map((m) => m.downlink).sort((a, b) =>
-            a - b
-        );
+        for (const measurement of measurements) {
+            estimator.add(measurement);
+        }
+        latency = measurements.findLast((m) => m.latency)?.latency ??
+            latency;
+        const loadedRtts = measurements
+            .flatMap((m) => m.loadedRtt === undefined ? [] : [m.loadedRtt])
+            .sort((a, b) => a - b);
+        if (loadedRtts.length) loadedRtt = _median(loadedRtts);
 
-        updateNetworkProperties(
-            _median(downlinks),
-            _median(rtts),
-            false,
+        // The default estimate is the median of this cycle alone, which may
+        // have stopped early (adaptive sizing)
+        if (options.estimator) {
+            updateFromEstimator();
+            return;
+        }
+        const cycle = createMedianEstimator({
+            maxSamples: measurements.length,
+        });
+        for (const measurement of measurements) {
+            cycle.add(measurement);
+        }
+        updateFromEstimator(cycle);
+    };
+
+    /**
+     * Get passive samples not older than the configured max age
+     */
+    const getFreshPassiveSamples = (): NetworkMeasurement[] => {
+        const minTimestamp = Date.now() - passiveMaxAge;
+        passiveSamples = passiveSamples.filter((m) =>
+            m.timestamp >= minTimestamp
         );
+        return passiveSamples;
+    };
+
+    /**
+     * Handle a sample derived from the page's own traffic
+     */
+    const handlePassiveSample = (measurement: NetworkMeasurement): void => {
+        // Buffered entries of an old page load are already stale
+        if (measurement.timestamp < Date.now() - passiveMaxAge) return;
+        passiveSamples.push(measurement);
+        estimator.add(measurement);
+        dispatchNetworkEvent('measurement', measurement);
+
+        const samples = getFreshPassiveSamples();
+        if (
+            !measuring && !isFollower() &&
+            samples.length >= passiveMinSamples
+        ) {
+            updateFromEstimator();
+        }
     };
 
     /**
      * Perform a network measurement cycle
+     * @param measureOptions Options for this cycle
      */
-    const performMeasurement = async (): Promise<void> => {
-        if (measuring) return;
+    const performMeasurement = async (
+        measureOptions: MeasureOptions = {},
+    ): Promise<void> => {
+        const { signal } = measureOptions;
+        if (
+            disposed || !online || isFollower() || measuring ||
+            signal?.aborted
+        ) return;
+
+        // Enough recent page traffic, no need for active probes
+        const samples = getFreshPassiveSamples();
+        if (samples.length >= passiveMinSamples) {
+            lastMeasurement = Date.now();
+            updateFromEstimator();
+            return;
+        }
+
+        // Skip the cycle when not even the smallest probe fits the budget
+        if (!fitProbeSize(baseMeasurementSize)) return;
 
         measuring = true;
         lastMeasurement = Date.now();
 
+        const controller = new AbortController();
+        const abort = () => controller.abort(signal?.reason);
+        let budgetExceeded = false;
+        const budgetTimer = setTimeout(() => {
+            budgetExceeded = true;
+            controller.abort(
+                new DOMException('Measurement cycle timed out', 'TimeoutError'),
+            );
+        }, cycleTimeout);
+        signal?.addEventListener('abort', abort);
+        cycleController = controller;
+
         try {
-            const measurements = await measureNetworkSpeed();
-            updateFromMeasurements(measurements);
+            const measurements = await measureNetworkSpeed(controller.signal);
+            // Out of budget keeps what was measured, explicit aborts discard it
+            if (!controller.signal.aborted || budgetExceeded) {
+                updateFromMeasurements(measurements);
+            }
         } catch {
             // Silent failure
         } finally {
-            measuring = false;
+            clearTimeout(budgetTimer);
+            signal?.removeEventListener('abort', abort);
+            if (cycleController === controller) {
+                cycleController = undefined;
+                measuring = false;
+            }
+        }
+    };
+
+    /**
+     * Whether periodic measurements are paused for the hidden document
+     */
+    const isHidden = (): boolean => {
+        return pauseWhenHidden && document?.visibilityState === 'hidden';
+    };
+
+    /**
+     * Whether a discharging device runs low on battery
+     */
+    const isLowBattery = (): boolean => {
+        return battery !== undefined && !battery.charging &&
+            battery.level < lowBatteryLevel;
+    };
+
+    /**
+     * Get the current delay between periodic measurements
+     */
+    const getPeriodicDelay = (): number => {
+        return isLowBattery() ? maxMeasurementInterval : periodicDelay;
+    };
+
+    /**
+     * Schedule the next periodic measurement, unless paused
+     * @param delay Delay in milliseconds
+     */
+    const schedulePeriodicMeasurement = (
+        delay: number = getPeriodicDelay(),
+    ): void => {
+        clearTimeout(periodicTimer);
+        periodicTimer = undefined;
+        if (!periodicRunning || isHidden()) return;
+        periodicTimer = setTimeout(runPeriodicMeasurement, delay);
+    };
+
+    /**
+     * Run a periodic measurement, backing off while results are stable
+     * and accelerating after a change
+     */
+    const runPeriodicMeasurement = async (): Promise<void> => {
+        periodicTimer = undefined;
+        const prevClassification = classification;
+        const prevLastMeasurement = lastMeasurement;
+        await performMeasurement();
+        if (!periodicRunning) return;
+
+        // Skipped cycles (offline, already measuring) leave the pace alone
+        if (lastMeasurement === prevLastMeasurement) {
+            schedulePeriodicMeasurement();
+            return;
+        }
+        periodicDelay = classification !== prevClassification
+            ? minMeasurementInterval
+            : Math.min(
+                Math.max(
+                    periodicDelay * measurementBackoff,
+                    minMeasurementInterval,
+                ),
+                maxMeasurementInterval,
+            );
+        schedulePeriodicMeasurement();
+    };
+
+    /**
+     * Reschedule after a visibility or battery change, measuring right away
+     * if the last result is stale
+     */
+    const reschedulePeriodicMeasurement = (): void => {
+        if (!periodicRunning) return;
+        if (isHidden()) {
+            schedulePeriodicMeasurement();
+            return;
+        }
+        const remaining = lastMeasurement + getPeriodicDelay() - Date.now();
+        if (remaining <= 0) {
+            runPeriodicMeasurement();
+        } else {
+            schedulePeriodicMeasurement(remaining);
         }
     };
 
@@ -439,50 +1895,183 @@ export function createNetworkInformation(
      * Start periodic network measurements
      */
     const startPeriodicMeasurements = (): void => {
-        periodicTimer = setInterval(() => {
-            if (canPerformMeasurement()) {
-                performMeasurement();
-            }
-        }, periodicInterval);
+        if (disposed) return;
+        periodicRunning = true;
+        document?.addEventListener(
+            'visibilitychange',
+            reschedulePeriodicMeasurement,
+        );
+        getBattery?.().then((batteryManager) => {
+            if (!periodicRunning) return;
+            battery = batteryManager;
+            battery.addEventListener(
+                'levelchange',
+                reschedulePeriodicMeasurement,
+            );
+            battery.addEventListener(
+                'chargingchange',
+                reschedulePeriodicMeasurement,
+            );
+            reschedulePeriodicMeasurement();
+        }).catch(() => {
+            // Battery Status API not available
+        });
+        schedulePeriodicMeasurement();
     };
 
     /**
      * Initialize the network measurement system
      */
-    const init = async (): Promise<void> => {
-        await performMeasurement();
+    const init = async (
+        hydrated: boolean | Promise<boolean>,
+    ): Promise<void> => {
+        // A fresh persisted estimate stands in for the initial probe
+        const fresh = await hydrated;
+        if (disposed) return;
+        if (!fresh) {
+            await performMeasurement();
+            if (disposed) return;
+        }
 
         if (periodicMeasurement) {
             startPeriodicMeasurements();
         }
     };
 
+    /**
+     * Start sampling the page's own resource loads
+     */
+    const startPassiveMeasurements = (): void => {
+        if (!PerformanceObserver) return;
+        stopObserving = observeResourceTimings({
+            onSample: handlePassiveSample,
+            ignore: (entry) => probeUrls.delete(entry.name),
+            estimatedServerTime,
+            minTransferSize: passiveMinTransferSize,
+        }, PerformanceObserver);
+    };
+
+    /**
+     * Handle a message of the service worker, samples of its upstream fetches
+     */
+    const handleServiceWorkerMessage = ({ data }: { data: unknown }): void => {
+        const message = data as ServiceWorkerSampleMessage | undefined;
+        if (message?.kind !== 'network-information:sample') return;
+        // Our own probes are already measured
+        if (probeUrls.delete(message.url)) return;
+        handlePassiveSample({ ...message.sample, source: 'passive' });
+    };
+
+    /**
+     * Start consuming the samples of a service worker sampler
+     */
+    const startServiceWorkerSampling = (): void => {
+        serviceWorker?.addEventListener('message', handleServiceWorkerMessage);
+        serviceWorker?.startMessages?.();
+    };
+
+    /**
+     * Initialize `saveData` from the persisted preference and media query
+     */
+    const initSaveData = (): void => {
+        try {
+            const stored = localStorage?.getItem(saveDataStorageKey);
+            if (stored === 'true' || stored === 'false') {
+                saveDataPreference = stored === 'true';
+            }
+        } catch {
+            // Storage not available
+        }
+        if (saveDataMediaQuery && matchMedia) {
+            saveDataMediaQueryList = matchMedia(
+                '(prefers-reduced-data: reduce)',
+            );
+            saveDataMediaMatches = saveDataMediaQueryList.matches;
+            saveDataMediaQueryList.addEventListener?.(
+                'change',
+                handleReducedDataChange,
+            );
+        }
+    };
+
+    /**
+     * Follow connectivity and type provider changes
+     */
+    const initConnectionType = (): void => {
+        globalScope?.addEventListener('online', handleOnline);
+        globalScope?.addEventListener('offline', handleOffline);
+        unsubscribeTypeProvider = typeProvider?.subscribe?.(
+            refreshDerivedProperties,
+        );
+    };
+
+    /**
+     * Hand over leadership once hidden
+     */
+    const checkLeadership = (): void => {
+        coordinator?.checkLeadership();
+    };
+
+    /**
+     * Join the other tabs, one of them measuring for all
+     */
+    const initCrossTab = (): void => {
+        if (!crossTab || !BroadcastChannel) return;
+        coordinator = createTabCoordinator({
+            channelName: crossTabChannel,
+            BroadcastChannel,
+            heartbeatInterval: crossTabHeartbeatInterval,
+            globalScope,
+            // A hidden leader would not measure, leave it to a visible tab
+            canLead: () => !isHidden(),
+            onResult: handleCrossTabResult,
+            onLeaderChange: handleLeaderChange,
+            onMeasureRequest: () => void performMeasurement(),
+        });
+        document?.addEventListener('visibilitychange', checkLeadership);
+    };
+
     // Initialize
+    initSaveData();
+    initConnectionType();
+    applyDerivedProperties();
+    const hydrated = hydrateEstimate();
+    initCrossTab();
+    if (passiveMeasurement) {
+        startPassiveMeasurements();
+    }
+    if (serviceWorkerSampling) {
+        startServiceWorkerSampling();
+    }
     if (autostart) {
-        init();
+        init(hydrated);
     }
 
-    // Return the public interface
-    return {
+    // Public interface, exposed on the event target itself
+    const publicInterface = {
         // Getters
 
         // W3C Network Information Api properties
         /** Downlink speed in Mbps */
         get downlink(): number | undefined {
-            return downlink;
+            return shapeSpeed(downlink);
         },
         /** Uplink speed in Mbps */
         get uplink(): number | undefined {
-            return uplink;
+            return shapeSpeed(uplink);
         },
         /** Round-trip time in milliseconds */
         get rtt(): number | undefined {
-            return rtt;
+            return shapeRtt(rtt);
         },
         /** Effective connection type classification */
         get effectiveType(): EffectiveConnectionType | undefined {
             return effectiveType;
         },
+        /** Label of the matched classification entry, if it has one */
+        get customType(): string | undefined {
+            return customType;
+        },
         /** Whether data saving mode is enabled */
         get saveData(): boolean {
             return saveData;
@@ -491,28 +2080,67 @@ export function createNetworkInformation(
         get type(): NetworkType {
             return type;
         },
+        /** Maximum downlink speed of the underlying technology in Mbps */
+        get downlinkMax(): number {
+            return downlinkMax;
+        },
+        /** Probe traffic usage against the data budget */
+        get budget(): DataBudgetUsage {
+            return dataBudget.getUsage(Date.now());
+        },
+        /** Whether the values come from a persisted estimate older than `estimateMaxAge` */
+        get stale(): boolean {
+            return stale;
+        },
 
         // Methods
 
         /**
          * Manually trigger a network measurement
+         * @param options Optional `signal` to abort the measurement
          * @returns Promise that resolves when measurement is complete
          */
-        measure: performMeasurement,
+        measure(measureOptions?: MeasureOptions): Promise<void> {
+            // Followers get the result from the leader tab
+            if (isFollower()) {
+                coordinator?.requestMeasurement();
+                return Promise.resolve();
+            }
+            return performMeasurement(measureOptions);
+        },
 
         /**
          * Get current connection information
          * @returns Object containing current network measurements
          */
         getConnectionInfo(): ConnectionInfo {
-            return {
-                downlink,
-                uplink,
-                rtt,
-                effectiveType,
-                saveData,
-                type,
-            };
+            return getConnectionInfo();
+        },
+
+        /**
+         * Get the measurements the current estimate is based on
+         * @returns Raw samples, oldest first
+         */
+        getMeasurementHistory(): NetworkMeasurement[] {
+            return estimator.getSamples(Date.now());
+        },
+
+        /**
+         * Set the user's data saving preference, persisted across reloads
+         * @param enabled Preference, or null to go back to automatic detection
+         */
+        setSaveData(enabled: boolean | null): void {
+            saveDataPreference = enabled;
+            try {
+                if (enabled === null) {
+                    localStorage?.removeItem(saveDataStorageKey);
+                } else {
+                    localStorage?.setItem(saveDataStorageKey, `${enabled}`);
+                }
+            } catch {
+                // Storage not available, the preference lasts for the session
+            }
+            refreshDerivedProperties();
         },
 
         /**
@@ -520,42 +2148,82 @@ export function createNetworkInformation(
          * Call this when you no longer need the instance to prevent memory leaks
          */
         dispose(): void {
-            // Clear the periodic measurement timer
-            if (periodicTimer !== undefined) {
-                clearInterval(periodicTimer);
-                periodicTimer = undefined;
-            }
+            disposed = true;
+            // Stop the periodic measurement scheduler
+            periodicRunning = false;
+            clearTimeout(periodicTimer);
+            periodicTimer = undefined;
+            document?.removeEventListener(
+                'visibilitychange',
+                reschedulePeriodicMeasurement,
+            );
+            battery?.removeEventListener(
+                'levelchange',
+                reschedulePeriodicMeasurement,
+            );
+            battery?.removeEventListener(
+                'chargingchange',
+                reschedulePeriodicMeasurement,
+            );
+            battery = undefined;
             // Clear any pending delays
             for (const timer of delayTimers) {
                 clearTimeout(timer);
             }
             delayTimers = [];
-            // Cancel any ongoing measurements (best effort)
+            // Stop following connectivity and type provider changes
+            globalScope?.removeEventListener('online', handleOnline);
+            globalScope?.removeEventListener('offline', handleOffline);
+            unsubscribeTypeProvider?.();
+            unsubscribeTypeProvider = undefined;
+            // Stop following the media query
+            saveDataMediaQueryList?.removeEventListener?.(
+                'change',
+                handleReducedDataChange,
+            );
+            saveDataMediaQueryList = undefined;
+            // Leave the other tabs, handing over leadership
+            document?.removeEventListener('visibilitychange', checkLeadership);
+            coordinator?.close();
+            coordinator = undefined;
+            // Stop observing resource timings
+            stopObserving?.();
+            stopObserving = undefined;
+            // Stop consuming the service worker samples
+            serviceWorker?.removeEventListener(
+                'message',
+                handleServiceWorkerMessage,
+            );
+            probeUrls.clear();
+            // Abort any ongoing measurement
+            cycleController?.abort(
+                new DOMException('NetworkInformation disposed', 'AbortError'),
+            );
+            cycleController = undefined;
             measuring = false;
         },
 
-        addEventListener(
-            type: string,
-            listener: (event: CustomEvent<NetworkChangeEventDetail>) => void,
-            options?: boolean | AddEventListenerOptions,
-        ): void {
-            eventTarget.addEventListener(
-                type,
-                listener as EventListener,
-                options,
-            );
+        /** Handler for 'change' events */
+        get onchange(): NetworkInformationLike['onchange'] {
+            return onchange;
         },
-
-        removeEventListener(
-            type: string,
-            listener: (event: CustomEvent<NetworkChangeEventDetail>) => void,
-            options?: EventListenerOptions | boolean,
-        ): void {
-            eventTarget.removeEventListener(
-                type,
-                listener as EventListener,
-                options,
-            );
+        set onchange(handler: NetworkInformationLike['onchange']) {
+            onchange = typeof handler === 'function' ? handler : null;
+            if (onchange && !onchangeListening) {
+                onchangeListening = true;
+                eventTarget.addEventListener('change', (event) => {
+                    onchange?.call(eventTarget, event);
+                });
+            }
         },
     };
+
+    connectionInfoShapers.set(
+        eventTarget,
+        (shaping) => getConnectionInfo(combineShaping(shaping, outputShaping)),
+    );
+    return Object.defineProperties(
+        eventTarget,
+        Object.getOwnPropertyDescriptors(publicInterface),
+    );
 }
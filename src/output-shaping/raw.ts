@@ -0,0 +1,6 @@
+import type { OutputShaping } from '../types.ts';
+
+/**
+ * Values exposed as measured, for diagnostics
+ */
+export default {} as OutputShaping;
@@ -0,0 +1,12 @@
+import type { OutputShaping } from '../types.ts';
+
+/**
+ * Rounding and caps of native implementations, limiting fingerprinting
+ * @see https://wicg.github.io/netinfo/#privacy-considerations
+ */
+export default {
+    rttStep: 25, // Nearest 25ms
+    maxRtt: 3_000, // Up to 3000ms
+    downlinkStep: 0.025, // Nearest 25 kbps
+    maxDownlink: 10, // Up to 10 Mbps
+} as OutputShaping;
@@ -0,0 +1,88 @@
+import type {
+    NetworkMeasurement,
+    PerformanceObserverConstructor,
+    PerformanceResourceTiming,
+} from './types.ts';
+
+/** Options for the resource timing sampler */
+export interface ResourceTimingSamplerOptions {
+    /** Called with every usable sample */
+    onSample: (measurement: NetworkMeasurement) => void;
+    /** Whether an entry must be skipped (e.g. our own probes) */
+    ignore?: (entry: PerformanceResourceTiming) => boolean;
+    /** Estimated server processing time in milliseconds */
+    estimatedServerTime: number;
+    /** Minimum transfer size in bytes for a resource to be sampled */
+    minTransferSize: number;
+}
+
+/**
+ * Derive a measurement from a resource timing entry
+ *
+ * Cross-origin resources without `Timing-Allow-Origin` expose zeroed
+ * timings and sizes, those are discarded.
+ *
+ * @param entry Resource timing entry
+ * @param estimatedServerTime Estimated server processing time in milliseconds
+ * @param minTransferSize Minimum transfer size in bytes
+ * @returns A passive measurement or null if the entry is not usable
+ */
+export const _sampleFromResourceTiming = (
+    entry: PerformanceResourceTiming,
+    estimatedServerTime: number,
+    minTransferSize: number,
+): NetworkMeasurement | null => {
+    if (
+        !entry.requestStart || !entry.responseStart ||
+        entry.transferSize < minTransferSize
+    ) {
+        return null;
+    }
+
+    const ttfb = entry.responseStart - entry.requestStart;
+    const payloadDownloadTime = entry.responseEnd - entry.responseStart;
+    if (ttfb < 0 || payloadDownloadTime <= 0) return null;
+
+    const rtt = Math.max(0.01, ttfb - estimatedServerTime);
+    const downlink = (8 * entry.transferSize) /
+        (payloadDownloadTime / 1_000) / 1_000_000;
+
+    return {
+        rtt,
+        downlink,
+        measurementSize: entry.transferSize,
+        duration: rtt + payloadDownloadTime,
+        realDuration: entry.responseEnd - entry.requestStart,
+        // When the resource loaded, buffered entries may be old
+        timestamp: performance.timeOrigin + entry.responseEnd,
+        source: 'passive',
+    };
+};
+
+/**
+ * Observe the page's own resource loads and turn them into measurements
+ *
+ * @param options Sampler options
+ * @param Observer PerformanceObserver implementation
+ * @returns Function that stops observing
+ */
+export function observeResourceTimings(
+    options: ResourceTimingSamplerOptions,
+    Observer: PerformanceObserverConstructor,
+): () => void {
+    const observer = new Observer((list) => {
+        for (const item of list.getEntries()) {
+            const entry = item as PerformanceResourceTiming;
+            if (options.ignore?.(entry)) continue;
+            const sample = _sampleFromResourceTiming(
+                entry,
+                options.estimatedServerTime,
+                options.minTransferSize,
+            );
+            if (sample) options.onSample(sample);
+        }
+    });
+    observer.observe({ type: 'resource', buffered: true });
+
+    return () => observer.disconnect();
+}
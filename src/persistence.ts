@@ -0,0 +1,212 @@
+import type {
+    EstimateStorage,
+    PersistedEstimate,
+    StorageLike,
+} from './types.ts';
+
+const DEFAULT_KEY = 'network-information-api-polyfill:estimate';
+
+/** Subset of the IndexedDB request API */
+interface IDBRequestLike<T> {
+    readonly result: T;
+    readonly error: unknown;
+    onsuccess: (() => void) | null;
+    onerror: (() => void) | null;
+}
+
+/** Subset of the IndexedDB object store API */
+interface IDBObjectStoreLike {
+    get(key: string): IDBRequestLike<unknown>;
+    put(value: unknown, key: string): IDBRequestLike<unknown>;
+}
+
+/** Subset of the IndexedDB database API */
+interface IDBDatabaseLike {
+    readonly objectStoreNames: { contains(name: string): boolean };
+    createObjectStore(name: string): unknown;
+    transaction(
+        storeName: string,
+        mode: 'readonly' | 'readwrite',
+    ): { objectStore(name: string): IDBObjectStoreLike };
+}
+
+/** Subset of the IndexedDB factory API */
+export interface IDBFactoryLike {
+    open(name: string, version?: number): IDBRequestLike<IDBDatabaseLike> & {
+        onupgradeneeded: (() => void) | null;
+    };
+}
+
+/**
+ * Check that a loaded value is a usable estimate
+ * @param value Loaded value
+ * @returns The estimate or undefined if malformed
+ */
+export const _parsePersistedEstimate = (
+    value: unknown,
+): PersistedEstimate | undefined => {
+    const estimate = value as Partial<PersistedEstimate> | null | undefined;
+    if (
+        !Number.isFinite(estimate?.downlink) ||
+        !Number.isFinite(estimate?.rtt) ||
+        !Number.isFinite(estimate?.timestamp)
+    ) {
+        return undefined;
+    }
+    const { downlink, rtt, uplink, timestamp } = estimate as PersistedEstimate;
+    return Number.isFinite(uplink)
+        ? { downlink, rtt, uplink, timestamp }
+        : { downlink, rtt, timestamp };
+};
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+const toPromise = <T>(request: IDBRequestLike<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+/**
+ * Create an estimate storage keeping the estimate in memory,
+ * e.g. to share it between instances of a single page
+ * @returns An estimate storage
+ */
+export function createMemoryEstimateStorage(): EstimateStorage {
+    let estimate: PersistedEstimate | undefined;
+    return {
+        load() {
+            return estimate;
+        },
+        save(newEstimate) {
+            estimate = { ...newEstimate };
+        },
+    };
+}
+
+/**
+ * Create an estimate storage backed by the Web Storage API,
+ * loaded synchronously so values are available right at construction
+ * @param options Storage key and storage (defaults to `localStorage`)
+ * @returns An estimate storage
+ *
+ * @example
+ * ```typescript
+ * const networkApi = createNetworkInformation({
+ *   classificationTable: CLASSIFICATION,
+ *   estimateStorage: createLocalStorageEstimateStorage(),
+ * });
+ * // Last known values, if any
+ * console.log(networkApi.effectiveType, networkApi.stale);
+ * ```
+ */
+export function createLocalStorageEstimateStorage(
+    options: { key?: string; storage?: StorageLike } = {},
+): EstimateStorage {
+    const key = options.key ?? DEFAULT_KEY;
+    const getStorage = (): StorageLike | undefined => {
+        try {
+            return options.storage ??
+                (globalThis as { localStorage?: StorageLike }).localStorage;
+        } catch {
+            return undefined;
+        }
+    };
+
+    return {
+        load() {
+            try {
+                const item = getStorage()?.getItem(key);
+                return item
+                    ? _parsePersistedEstimate(JSON.parse(item))
+                    : undefined;
+            } catch {
+                return undefined;
+            }
+        },
+        save(estimate) {
+            try {
+                getStorage()?.setItem(key, JSON.stringify(estimate));
+            } catch {
+                // Storage not available or full
+            }
+        },
+    };
+}
+
+/**
+ * Create an estimate storage backed by IndexedDB, available in workers
+ *
+ * Loading is asynchronous: values are applied (with a 'change' event)
+ * shortly after construction.
+ *
+ * @param options Database and key names, IndexedDB factory (defaults to `indexedDB`)
+ * @returns An estimate storage
+ */
+export function createIndexedDbEstimateStorage(
+    options: {
+        databaseName?: string;
+        storeName?: string;
+        key?: string;
+        indexedDB?: IDBFactoryLike;
+    } = {},
+): EstimateStorage {
+    const databaseName = options.databaseName ??
+        'network-information-api-polyfill';
+    const storeName = options.storeName ?? 'estimates';
+    const key = options.key ?? DEFAULT_KEY;
+    let database: Promise<IDBDatabaseLike> | undefined;
+
+    const openDatabase = (): Promise<IDBDatabaseLike> => {
+        if (!database) {
+            const factory = options.indexedDB ??
+                (globalThis as { indexedDB?: IDBFactoryLike }).indexedDB;
+            if (!factory) {
+                return Promise.reject(
+                    new TypeError('IndexedDB is not available'),
+                );
+            }
+            const request = factory.open(databaseName, 1);
+            request.onupgradeneeded = () => {
+                if (!request.result.objectStoreNames.contains(storeName)) {
+                    request.result.createObjectStore(storeName);
+                }
+            };
+            database = toPromise(request);
+            // Allow retrying after a failure
+            database.catch(() => {
+                database = undefined;
+            });
+        }
+        return database;
+    };
+
+    return {
+        async load() {
+            try {
+                const db = await openDatabase();
+                const value = await toPromise(
+                    db.transaction(storeName, 'readonly')
+                        .objectStore(storeName)
+                        .get(key),
+                );
+                return _parsePersistedEstimate(value);
+            } catch {
+                return undefined;
+            }
+        },
+        async save(estimate) {
+            try {
+                const db = await openDatabase();
+                await toPromise(
+                    db.transaction(storeName, 'readwrite')
+                        .objectStore(storeName)
+                        .put(estimate, key),
+                );
+            } catch {
+                // IndexedDB not available or full
+            }
+        },
+    };
+}
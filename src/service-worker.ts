@@ -0,0 +1,142 @@
+import type { NetworkMeasurement, PerformanceResourceTiming } from './types.ts';
+import { _sampleFromResourceTiming } from './passive.ts';
+import { getServerTimingDuration } from './backends/server-timing.ts';
+
+/** Message carrying a sample from the service worker to its clients */
+export interface ServiceWorkerSampleMessage {
+    kind: 'network-information:sample';
+    /** URL of the sampled response */
+    url: string;
+    /** Measurement derived from the response */
+    sample: NetworkMeasurement;
+}
+
+/** Subset of the service worker `Clients` API */
+export interface ClientsLike {
+    get(
+        id: string,
+    ): Promise<{ postMessage(message: unknown): void } | undefined>;
+}
+
+/** Subset of the service worker `FetchEvent` API */
+export interface FetchEventLike {
+    readonly request: Request;
+    /** Client the request comes from, empty for navigations */
+    readonly clientId?: string;
+    /** Client a navigation creates */
+    readonly resultingClientId?: string;
+    waitUntil?(promise: Promise<unknown>): void;
+}
+
+/** Options for the service worker sampler */
+export interface ServiceWorkerSamplerOptions {
+    /** Clients receiving the samples, defaults to the service worker's `clients` */
+    clients?: ClientsLike;
+    /** Fetch API */
+    fetch?: typeof fetch;
+    /** Estimated server processing time in milliseconds, without `Server-Timing` */
+    estimatedServerTime?: number;
+    /** Minimum body size in bytes for a response to be sampled */
+    minTransferSize?: number;
+}
+
+/**
+ * Create a function fetching the request of a fetch event and timing the
+ * upstream response in a service worker
+ *
+ * The TTFB is measured when the headers arrive, the body rate reading a
+ * clone of the response, which is returned untouched. Each sample is posted
+ * to the client the request comes from (or the one a navigation creates),
+ * where instances created with `serviceWorkerSampling` consume them instead
+ * of probing. Bodies smaller than `minTransferSize`, opaque and empty
+ * responses are not sampled. Responses served from the HTTP cache may yield
+ * optimistic samples.
+ *
+ * @param options Sampler options
+ * @returns A function fetching the request of a fetch event
+ *
+ * @example
+ * ```typescript
+ * // sw.ts
+ * const sampledFetch = createServiceWorkerSampler();
+ * self.addEventListener('fetch', (event) => {
+ *   event.respondWith(sampledFetch(event));
+ * });
+ * ```
+ */
+export function createServiceWorkerSampler(
+    options: ServiceWorkerSamplerOptions = {},
+): (event: FetchEventLike) => Promise<Response> {
+    const fetch = options.fetch ?? globalThis.fetch.bind(globalThis);
+    const clients = options.clients ??
+        (globalThis as { clients?: ClientsLike }).clients;
+    const estimatedServerTime = options.estimatedServerTime ?? 10;
+    const minTransferSize = options.minTransferSize ?? 32_000;
+
+    const postSample = async (
+        clientId: string,
+        url: string,
+        sample: NetworkMeasurement,
+    ): Promise<void> => {
+        const message: ServiceWorkerSampleMessage = {
+            kind: 'network-information:sample',
+            url,
+            sample,
+        };
+        (await clients?.get(clientId))?.postMessage(message);
+    };
+
+    /**
+     * Read a body to its end, timing it
+     * @returns Size of the body in bytes, and when it ended
+     */
+    const readBody = async (
+        body: ReadableStream<Uint8Array>,
+    ): Promise<{ transferSize: number; responseEnd: number }> => {
+        const reader = body.getReader();
+        let transferSize = 0;
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            transferSize += value.byteLength;
+        }
+        return { transferSize, responseEnd: performance.now() };
+    };
+
+    return async (event) => {
+        const { request } = event;
+        const requestStart = performance.now();
+        const response = await fetch(request);
+        const responseStart = performance.now();
+        const clientId = event.clientId || event.resultingClientId;
+        if (!clientId || !response.body || response.type === 'opaque') {
+            return response;
+        }
+
+        const url = response.url || request.url;
+        const serverTime = getServerTimingDuration(response) ||
+            estimatedServerTime;
+
+        const sampling = readBody(response.clone().body!).then(
+            ({ transferSize, responseEnd }) => {
+                const sample = _sampleFromResourceTiming(
+                    {
+                        name: url,
+                        requestStart,
+                        responseStart,
+                        responseEnd,
+                        transferSize,
+                    } as PerformanceResourceTiming,
+                    serverTime,
+                    minTransferSize,
+                );
+                if (sample) return postSample(clientId, url, sample);
+            },
+        ).catch(() => {
+            // Silent failure
+        });
+        event.waitUntil?.(sampling);
+
+        return response;
+    };
+}
@@ -11,12 +11,36 @@ export type NetworkType =
     | 'other'
     | 'unknown';
 
+/** Connection type reported by a type provider */
+export interface NetworkTypeHint {
+    /** Connection type */
+    type: NetworkType;
+    /** Maximum downlink speed of the underlying technology in Mbps */
+    downlinkMax?: number;
+}
+
+/** Source of connection type hints, e.g. a native WebView bridge */
+export interface NetworkTypeProvider {
+    /** Current hint, or undefined if unknown */
+    getType(): NetworkTypeHint | undefined;
+    /**
+     * Subscribe to hint changes
+     * @param listener Called with every new hint
+     * @returns Function that unsubscribes
+     */
+    subscribe?(
+        listener: (hint: NetworkTypeHint | undefined) => void,
+    ): () => void;
+}
+
 /** Individual network measurement result */
 export interface NetworkMeasurement {
     /** Round-trip time in milliseconds */
     rtt: number;
     /** Measured downlink speed in Mbps */
     downlink: number;
+    /** Measured uplink speed in Mbps (only when upload measurement is enabled) */
+    uplink?: number;
     /** Size of data measured in bytes */
     measurementSize: number;
     /** Network duration excluding server time */
@@ -25,34 +49,254 @@ export interface NetworkMeasurement {
     realDuration: number;
     /** Timestamp when measurement was taken */
     timestamp: number;
+    /** Whether it comes from a dedicated probe or from the page's own traffic */
+    source?: MeasurementSource;
+    /** Whether a probe timed out, values are then bounds (RTT lower, speeds upper) */
+    timedOut?: boolean;
+    /** Bytes received over time by the download probe (active measurements) */
+    timeline?: DownloadProgress[];
+    /** Statistics of the latency probes (active measurements with `latencyProbeCount` > 1) */
+    latency?: LatencyStats;
+    /** Median RTT in milliseconds of the latency probes sent during the download (`loadedLatency`) */
+    loadedRtt?: number;
+}
+
+/** Latency variability over the probes of a multi-ping phase */
+export interface LatencyStats {
+    /** Lowest RTT in milliseconds */
+    rttMin: number;
+    /** Median RTT in milliseconds */
+    rttMedian: number;
+    /** 90th percentile RTT in milliseconds */
+    rttP90: number;
+    /** Mean absolute difference between successive RTTs in milliseconds */
+    jitter: number;
+    /** Fraction of the latency probes that failed or timed out (0-1) */
+    failedRatio: number;
+}
+
+/** Point of the timeline of a streamed download */
+export interface DownloadProgress {
+    /** Time since the request was sent in milliseconds */
+    time: number;
+    /** Payload bytes received so far */
+    bytes: number;
+}
+
+/** Origin of a network measurement */
+export type MeasurementSource = 'active' | 'passive';
+
+/** Parameters describing a single probe request */
+export interface MeasurementRequest {
+    /** Unique id shared by all the probes of a measurement cycle */
+    uid: string;
+    /** Requested payload size in bytes (0 for latency probes) */
+    bytes: number;
+    /** Index of the probe within the measurement cycle */
+    index: number;
+}
+
+/** Server side of the measurements: where probes are sent and how to read them */
+export interface MeasurementBackend {
+    /**
+     * Build the URL of a download probe
+     * @param request Probe parameters
+     * @returns Absolute URL to fetch
+     */
+    createUrl(request: MeasurementRequest): string;
+    /**
+     * Number of payload bytes the server will send for a requested size
+     * @param bytes Requested payload size in bytes
+     * @returns Expected payload size in bytes
+     */
+    getPayloadSize(bytes: number): number;
+    /**
+     * Extract server processing time from a probe response
+     * @param response Fetch response object
+     * @returns Server time in milliseconds or null if unknown
+     */
+    getServerTime(response: Response): number | null;
+    /**
+     * Build the URL of an upload probe, accepting a POST of `request.bytes` bytes.
+     * Backends without upload support omit it.
+     * @param request Probe parameters
+     * @returns Absolute URL to POST to
+     */
+    createUploadUrl?(request: MeasurementRequest): string;
+}
+
+/** Aggregated network estimate */
+export interface NetworkEstimate {
+    /** Downlink speed in Mbps */
+    downlink: number;
+    /** Round-trip time in milliseconds */
+    rtt: number;
+    /** Uplink speed in Mbps, if any sample measured it */
+    uplink?: number;
+}
+
+/** Turns a history of measurements into a single estimate */
+export interface NetworkEstimator {
+    /**
+     * Record a new measurement
+     * @param measurement Measurement to add to the history
+     */
+    add(measurement: NetworkMeasurement): void;
+    /**
+     * Compute the current estimate
+     * @param now Current timestamp in milliseconds
+     * @returns The estimate or null if there are no samples
+     */
+    estimate(now: number): NetworkEstimate | null;
+    /**
+     * Samples currently taken into account, oldest first
+     * @param now Current timestamp in milliseconds
+     */
+    getSamples(now: number): NetworkMeasurement[];
+    /** Forget all the samples */
+    clear(): void;
 }
 
 /** Configuration options for NetworkInformation */
 export interface NetworkInformationConfig {
-    /** Origin URL for speed tests (Cloudflare like) */
+    /** Origin URL for speed tests (Cloudflare like), ignored when `backend` is set */
     origin?: string;
+    /** Measurement backend, defaults to Cloudflare's `/__down` endpoint on `origin` */
+    backend?: MeasurementBackend;
     /** Estimated server processing time in milliseconds */
     estimatedServerTime?: number;
     /** Estimated fraction of data that is headers */
     estimatedHeaderFraction?: number;
-    /** Number of measurements to perform */
+    /** Number of measurements to perform, an upper bound with `adaptiveSizing` */
     measurementCount?: number;
     /** Base size for first measurement in bytes */
     baseMeasurementSize?: number;
     /** Multiplier for subsequent measurement sizes */
     measurementSizeMultiplier?: number;
+    /** Fraction of a download discarded as warm-up (slow-start) when computing its throughput */
+    warmupFraction?: number;
+    /** Latency probes per measurement, the RTT is their median (2 or more report `latency` statistics) */
+    latencyProbeCount?: number;
+    /** Whether to probe latency during downloads, reporting `loadedRtt` (bufferbloat) */
+    loadedLatency?: boolean;
+    /** Interval between the latency probes sent during a download in milliseconds */
+    loadedLatencyInterval?: number;
+    /** Whether to size each probe from the previous throughput, stopping once converged */
+    adaptiveSizing?: boolean;
+    /** Target download duration of an adaptive probe in milliseconds */
+    targetProbeDuration?: number;
+    /** Maximum size of an adaptive probe in bytes */
+    maxMeasurementSize?: number;
+    /** Relative difference under which consecutive adaptive probes agree */
+    convergenceTolerance?: number;
+    /** Whether to measure uplink with upload probes instead of estimating it */
+    uploadMeasurement?: boolean;
+    /** Base size for first upload measurement in bytes */
+    baseUploadSize?: number;
     /** Whether to perform periodic re-measurements */
     periodicMeasurement?: boolean;
     /** Interval between periodic measurements in milliseconds */
     measurementInterval?: number;
+    /** Interval after a cycle that changed `effectiveType` in milliseconds */
+    minMeasurementInterval?: number;
+    /** Upper bound of the interval while results are stable in milliseconds */
+    maxMeasurementInterval?: number;
+    /** Factor growing the interval after each stable cycle (1 disables backoff) */
+    measurementBackoff?: number;
+    /** Byte cap of the probe traffic for the browsing session */
+    sessionDataBudget?: number;
+    /** Byte cap of the probe traffic for the current UTC day */
+    dailyDataBudget?: number;
+    /** Storage key persisting the probe traffic usage */
+    dataBudgetStorageKey?: string;
+    /** Whether tabs of the origin elect one leader probing for all of them */
+    crossTab?: boolean;
+    /** BroadcastChannel name shared by the tabs */
+    crossTabChannel?: string;
+    /** Interval of the leader heartbeat in milliseconds */
+    crossTabHeartbeatInterval?: number;
+    /** Whether periodic measurements pause while the document is hidden */
+    pauseWhenHidden?: boolean;
+    /** Battery level below which a discharging device measures at the max interval (0 disables) */
+    lowBatteryLevel?: number;
+    /** Whether to derive estimates from the page's own resource timings */
+    passiveMeasurement?: boolean;
+    /** Minimum fresh passive samples needed to skip active probes */
+    passiveMinSamples?: number;
+    /** Maximum age of a passive sample in milliseconds */
+    passiveMaxAge?: number;
+    /** Minimum transfer size in bytes for a resource to be sampled */
+    passiveMinTransferSize?: number;
+    /** Whether to consume samples posted by a service worker sampler instead of probing */
+    serviceWorkerSampling?: boolean;
+    /** Hysteresis margin as a fraction of the thresholds (e.g. 0.1 for 10%) */
+    hysteresis?: number;
+    /** Consecutive agreeing updates required before `effectiveType` changes */
+    stableCycles?: number;
+    /** Timeout of each probe request in milliseconds */
+    requestTimeout?: number;
+    /** Overall time budget of a measurement cycle in milliseconds */
+    cycleTimeout?: number;
+    /** Provider of the true connection type (e.g. a native WebView bridge) */
+    typeProvider?: NetworkTypeProvider;
+    /** Whether to guess the connection type from the RTT signature */
+    typeHeuristics?: boolean;
+    /** Whether `saveData` follows the `prefers-reduced-data` media query */
+    saveDataMediaQuery?: boolean;
+    /** Probe response header echoing the client's `Save-Data` hint (e.g. 'save-data') */
+    saveDataHeader?: string;
+    /** Effective types that enable `saveData` automatically */
+    saveDataEffectiveTypes?: EffectiveConnectionType[];
+    /** Storage key persisting the user preference set with `setSaveData()` */
+    saveDataStorageKey?: string;
+    /** Whether 'change' events are CustomEvents carrying the values in `detail` */
+    changeEventDetail?: boolean;
+    /** Confidence under which results are reported as preliminary */
+    minConfidence?: number;
+    /** Age in milliseconds at which the confidence in an estimate is halved */
+    confidenceHalfLife?: number;
+    /** Rounding and caps of the exposed values, defaults to the spec ones */
+    outputShaping?: OutputShaping;
+    /** Maximum noise applied to the exposed values as a fraction (e.g. 0.1 for up to ±10%) */
+    outputNoise?: number;
+    /** Storage of the last estimate, hydrated at construction */
+    estimateStorage?: EstimateStorage;
+    /** Age in milliseconds under which a persisted estimate skips the initial probe */
+    estimateMaxAge?: number;
+    /** Estimator aggregating measurements, defaults to the median of the latest samples */
+    estimator?: NetworkEstimator;
     /** Custom classification table (required - no default) */
     classificationTable: ConnectionClassification[];
 }
 
+/** Options for a manually triggered measurement */
+export interface MeasureOptions {
+    /** Signal aborting the measurement, discarding its results */
+    signal?: AbortSignal;
+}
+
 /** Optional dependencies for the NetworkInformation */
 export interface NetworkInformationServices {
     /** Fetch API */
     fetch?: typeof fetch;
+    /** PerformanceObserver API (passive measurement) */
+    PerformanceObserver?: PerformanceObserverConstructor;
+    /** matchMedia API (`prefers-reduced-data`) */
+    matchMedia?: (query: string) => MediaQueryListLike;
+    /** Web Storage API (persisted `saveData` preference and daily data usage) */
+    localStorage?: StorageLike;
+    /** Web Storage API (persisted session data usage) */
+    sessionStorage?: StorageLike;
+    /** Global scope dispatching 'online'/'offline' events, with `navigator.onLine` */
+    globalScope?: GlobalScopeLike;
+    /** BroadcastChannel API (cross-tab sharing) */
+    BroadcastChannel?: BroadcastChannelConstructor;
+    /** Service worker container receiving the sampler messages */
+    serviceWorker?: ServiceWorkerContainerLike;
+    /** Document dispatching 'visibilitychange' events (scheduling) */
+    document?: DocumentLike;
+    /** Battery Status API (scheduling) */
+    getBattery?: () => Promise<BatteryManagerLike>;
 }
 
 /** Connection information matching W3C Network Information Api */
@@ -65,10 +309,22 @@ export interface ConnectionInfo {
     rtt?: number;
     /** Effective connection type */
     effectiveType?: EffectiveConnectionType;
+    /** App-level label of the matched classification entry */
+    customType?: string;
     /** Whether data saving mode is enabled */
     saveData: boolean;
     /** Connection type */
     type: string;
+    /** Maximum downlink speed of the underlying technology in Mbps */
+    downlinkMax: number;
+    /** Whether the values come from a persisted estimate older than `estimateMaxAge` */
+    stale: boolean;
+    /** Latency variability of the latest multi-ping phase */
+    latency?: LatencyStats;
+    /** Round-trip time under load in milliseconds (`loadedLatency`) */
+    loadedRtt?: number;
+    /** Confidence in the values from 0 to 1, from sample count, variance and age */
+    confidence?: number;
 }
 
 /** Event detail for network change events */
@@ -81,10 +337,143 @@ export interface NetworkChangeEventDetail {
     rtt?: number;
     /** Effective connection type */
     effectiveType?: EffectiveConnectionType;
+    /** App-level label of the matched classification entry */
+    customType?: string;
+    /** Whether data saving mode is enabled */
+    saveData?: boolean;
+    /** Connection type */
+    type?: NetworkType;
+    /** Maximum downlink speed of the underlying technology in Mbps */
+    downlinkMax?: number;
+    /** Whether the values come from a persisted estimate older than `estimateMaxAge` */
+    stale?: boolean;
+    /** Latency variability of the latest multi-ping phase */
+    latency?: LatencyStats;
+    /** Round-trip time under load in milliseconds (`loadedLatency`) */
+    loadedRtt?: number;
+    /** Confidence in the values from 0 to 1, from sample count, variance and age */
+    confidence?: number;
     /** Whether this is a preliminary result */
     preliminary?: boolean;
 }
 
+/** Estimate persisted across page loads */
+export interface PersistedEstimate extends NetworkEstimate {
+    /** Time of the estimate in milliseconds since epoch */
+    timestamp: number;
+}
+
+/** Storage adapter persisting the last estimate */
+export interface EstimateStorage {
+    /** Load the last estimate, if any */
+    load():
+        | PersistedEstimate
+        | undefined
+        | Promise<PersistedEstimate | undefined>;
+    /** Save the latest estimate */
+    save(estimate: PersistedEstimate): void | Promise<void>;
+}
+
+/** Probe traffic usage against the data budget */
+export interface DataBudgetUsage {
+    /** Bytes transferred by probes in this browsing session */
+    sessionBytes: number;
+    /** Bytes transferred by probes today (UTC), across tabs */
+    dailyBytes: number;
+    /** Byte cap for the session */
+    sessionLimit: number;
+    /** Byte cap for the day */
+    dailyLimit: number;
+    /** Bytes left before reaching either cap */
+    remaining: number;
+}
+
+/** Subset of the MediaQueryList API */
+export interface MediaQueryListLike {
+    readonly matches: boolean;
+    addEventListener?(
+        type: 'change',
+        listener: (event: { matches: boolean }) => void,
+    ): void;
+    removeEventListener?(
+        type: 'change',
+        listener: (event: { matches: boolean }) => void,
+    ): void;
+}
+
+/** Subset of the global scope (window or worker) used for connectivity */
+export interface GlobalScopeLike {
+    navigator?: { onLine?: boolean };
+    addEventListener(type: string, listener: () => void): void;
+    removeEventListener(type: string, listener: () => void): void;
+}
+
+/** Subset of the BroadcastChannel API */
+export interface BroadcastChannelLike {
+    postMessage(message: unknown): void;
+    close(): void;
+    addEventListener(
+        type: 'message',
+        listener: (event: { data: unknown }) => void,
+    ): void;
+    removeEventListener(
+        type: 'message',
+        listener: (event: { data: unknown }) => void,
+    ): void;
+}
+
+/** Constructor of BroadcastChannelLike objects */
+export type BroadcastChannelConstructor = new (
+    name: string,
+) => BroadcastChannelLike;
+
+/** Subset of the MessagePort API (also matched by `Worker` and worker scopes) */
+export interface MessagePortLike {
+    postMessage(message: unknown): void;
+    addEventListener(
+        type: 'message',
+        listener: (event: { data: unknown }) => void,
+    ): void;
+    removeEventListener(
+        type: 'message',
+        listener: (event: { data: unknown }) => void,
+    ): void;
+    start?(): void;
+}
+
+/** Subset of the ServiceWorkerContainer API used to receive samples */
+export interface ServiceWorkerContainerLike {
+    /** Service worker controlling the page, none samples the probes otherwise */
+    readonly controller?: unknown;
+    addEventListener(
+        type: 'message',
+        listener: (event: { data: unknown }) => void,
+    ): void;
+    removeEventListener(
+        type: 'message',
+        listener: (event: { data: unknown }) => void,
+    ): void;
+    startMessages?(): void;
+}
+
+/** Subset of the Document API used to follow page visibility */
+export interface DocumentLike {
+    readonly visibilityState: string;
+    addEventListener(type: 'visibilitychange', listener: () => void): void;
+    removeEventListener(type: 'visibilitychange', listener: () => void): void;
+}
+
+/** Subset of the Battery Status API */
+export interface BatteryManagerLike {
+    readonly level: number;
+    readonly charging: boolean;
+    addEventListener(type: string, listener: () => void): void;
+    removeEventListener(type: string, listener: () => void): void;
+}
+
+/** Subset of the Web Storage API */
+export type StorageLike = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
 export interface PerformanceResourceTiming extends PerformanceEntry {
     transferSize: number;
     requestStart: number;
@@ -92,38 +481,154 @@ export interface PerformanceResourceTiming extends PerformanceEntry {
     responseEnd: number;
 }
 
+/** Subset of the PerformanceObserver API used for passive measurement */
+export interface PerformanceObserverLike {
+    observe(options: { type: string; buffered?: boolean }): void;
+    disconnect(): void;
+}
+
+export type PerformanceObserverConstructor = new (
+    callback: (list: { getEntries(): PerformanceEntry[] }) => void,
+) => PerformanceObserverLike;
+
 export interface ConnectionClassification {
     type: EffectiveConnectionType;
+    /** App-level label reported as `customType` next to `effectiveType` (e.g. 'satellite') */
+    customType?: string;
     /** Maximum downlink speed in Mbps (exclusive) */
     maxDownlink?: number;
     /** Minimum RTT in milliseconds (exclusive) */
     minRtt?: number;
+    /** Minimum RTT under load in milliseconds (exclusive) */
+    minLoadedRtt?: number;
+    /** Rule matching this entry, in addition to the thresholds above */
+    rule?: ClassificationRule;
+    /** Maximum jitter in milliseconds tolerated by this type (inclusive), worse falls to the previous entry */
+    maxJitter?: number;
+    /** Hysteresis margin as a fraction of the thresholds (overrides the global one) */
+    hysteresis?: number;
     /** Human readable description */
     description?: string;
 }
 
+/** Rounding and caps applied to the exposed values */
+export interface OutputShaping {
+    /** Step RTTs are rounded to in milliseconds */
+    rttStep?: number;
+    /** Cap of RTTs in milliseconds */
+    maxRtt?: number;
+    /** Step speeds are rounded to in Mbps */
+    downlinkStep?: number;
+    /** Cap of speeds in Mbps */
+    maxDownlink?: number;
+}
+
+/** Metric compared by a classification rule */
+export type ClassificationMetric =
+    | 'downlink'
+    | 'uplink'
+    | 'rtt'
+    | 'loadedRtt'
+    | 'jitter';
+
+/** Rule matching a classification entry, combined with `all` (AND) and `any` (OR) */
+export type ClassificationRule =
+    | { all: ClassificationRule[] }
+    | { any: ClassificationRule[] }
+    | {
+        metric: ClassificationMetric;
+        /** Matches values below this threshold (exclusive) */
+        below?: number;
+        /** Matches values above this threshold (exclusive) */
+        above?: number;
+    };
+
+/** Values a connection is classified from, undefined when not measured */
+export interface ClassificationMetrics {
+    /** Downlink speed in Mbps */
+    downlink: number;
+    /** Round-trip time in milliseconds */
+    rtt: number;
+    /** Measured uplink speed in Mbps */
+    uplink?: number;
+    /** Jitter in milliseconds */
+    jitter?: number;
+    /** Round-trip time under load in milliseconds */
+    loadedRtt?: number;
+}
+
+/** NetworkInformation interface object, not constructible */
+export interface NetworkInformationConstructor {
+    prototype: NetworkInformationLike;
+    new (): never;
+    /** Throws as well, like the native interface object */
+    (): never;
+}
+
 /** NetworkInformation interface */
-export interface NetworkInformationLike {
+export interface NetworkInformationLike extends EventTarget {
     // W3C Network Information API properties
     readonly downlink?: number;
     readonly uplink?: number;
     readonly rtt?: number;
     readonly effectiveType?: EffectiveConnectionType;
+    readonly customType?: string;
     readonly saveData: boolean;
     readonly type: NetworkType;
+    readonly downlinkMax: number;
+    readonly budget: DataBudgetUsage;
+    readonly stale: boolean;
+    onchange: ((this: NetworkInformationLike, event: Event) => unknown) | null;
 
     // Methods
-    measure(): Promise<void>;
+    measure(options?: MeasureOptions): Promise<void>;
     getConnectionInfo(): ConnectionInfo;
+    getMeasurementHistory(): NetworkMeasurement[];
+    setSaveData(enabled: boolean | null): void;
     dispose(): void;
+    /**
+     * 'measurement' and 'budget' events, and 'change' events with
+     * `changeEventDetail`, carry the values in `detail`: annotate 'change'
+     * listeners with `CustomEvent<NetworkChangeEventDetail>` to read it
+     */
+    addEventListener(
+        type: 'budget',
+        listener: (event: CustomEvent<DataBudgetUsage>) => void,
+        options?: boolean | AddEventListenerOptions,
+    ): void;
+    addEventListener(
+        type: 'change',
+        listener: (event: Event) => void,
+        options?: boolean | AddEventListenerOptions,
+    ): void;
     addEventListener(
         type: string,
         listener: (event: CustomEvent<NetworkChangeEventDetail>) => void,
         options?: boolean | AddEventListenerOptions,
     ): void;
+    addEventListener(
+        type: string,
+        listener: EventListenerOrEventListenerObject | null,
+        options?: boolean | AddEventListenerOptions,
+    ): void;
+    removeEventListener(
+        type: 'budget',
+        listener: (event: CustomEvent<DataBudgetUsage>) => void,
+        options?: EventListenerOptions | boolean,
+    ): void;
+    removeEventListener(
+        type: 'change',
+        listener: (event: Event) => void,
+        options?: EventListenerOptions | boolean,
+    ): void;
     removeEventListener(
         type: string,
         listener: (event: CustomEvent<NetworkChangeEventDetail>) => void,
         options?: EventListenerOptions | boolean,
     ): void;
+    removeEventListener(
+        type: string,
+        listener: EventListenerOrEventListenerObject | null,
+        options?: EventListenerOptions | boolean,
+    ): void;
 }
@@ -0,0 +1,208 @@
+import type { ConnectionClassification } from './types.ts';
+
+/** Kind of problem found in a classification table */
+export type ClassificationDiagnosticCode =
+    | 'empty-table'
+    | 'missing-catch-all'
+    | 'non-monotonic-threshold'
+    | 'unreachable-entry'
+    | 'duplicate-type';
+
+/** Problem found in a classification table */
+export interface ClassificationDiagnostic {
+    code: ClassificationDiagnosticCode;
+    /** Errors make the table invalid, warnings are likely mistakes */
+    severity: 'error' | 'warning';
+    /** Index of the offending entry, undefined for the whole table */
+    index?: number;
+    /** Human readable description */
+    message: string;
+}
+
+/** Thresholds matching an entry, with the direction worse entries go */
+const MATCHING_THRESHOLDS = [
+    { key: 'maxDownlink', increasing: true },
+    { key: 'minRtt', increasing: false },
+    { key: 'minLoadedRtt', increasing: false },
+] as const;
+
+/**
+ * Describe an entry for diagnostic messages
+ */
+const describeEntry = (
+    classification: ConnectionClassification,
+    index: number,
+): string => {
+    const label = classification.customType
+        ? `${classification.type}/${classification.customType}`
+        : classification.type;
+    return `entry ${index} ('${label}')`;
+};
+
+/**
+ * Whether an entry matches any connection, not having thresholds nor rule
+ */
+const isCatchAll = (classification: ConnectionClassification): boolean =>
+    classification.rule === undefined &&
+    MATCHING_THRESHOLDS.every(({ key }) => classification[key] === undefined);
+
+/**
+ * Check a classification table for mistakes
+ *
+ * Entries are matched in order, so they must go from the worst connection
+ * to the best: `maxDownlink` thresholds must increase, `minRtt`,
+ * `minLoadedRtt` and `maxJitter` thresholds must decrease, and the last
+ * entry must be a catch-all (only `maxJitter` is allowed). Entries whose
+ * thresholds are all covered by earlier ones are unreachable. Entries with
+ * a `rule` are only checked for reachability.
+ *
+ * Tables with error diagnostics are rejected by `createNetworkInformation`.
+ *
+ * @param classificationTable The classification table
+ * @returns Diagnostics ordered by entry, table-wide ones first
+ *
+ * @example
+ * ```typescript
+ * const diagnostics = validateClassificationTable([
+ *   { type: '3g', maxDownlink: 0.7 },
+ *   { type: '2g', maxDownlink: 0.07 },
+ *   { type: '4g' },
+ * ]);
+ * // [{ code: 'unreachable-entry', severity: 'error', index: 1, ... }]
+ * ```
+ */
+export function validateClassificationTable(
+    classificationTable: ConnectionClassification[],
+): ClassificationDiagnostic[] {
+    const diagnostics: ClassificationDiagnostic[] = [];
+    if (classificationTable.length === 0) {
+        return [{
+            code: 'empty-table',
+            severity: 'error',
+            message: 'The classification table is empty',
+        }];
+    }
+
+    // Most permissive matching thresholds and strictest maxJitter so far
+    const extremes = new Map<string, { value: number; index: number }>();
+    const labels = new Map<string, number>();
+    let catchAllIndex: number | undefined;
+
+    classificationTable.forEach((classification, index) => {
+        const entry = describeEntry(classification, index);
+
+        const label = `${classification.type}/${classification.customType}`;
+        const duplicateIndex = labels.get(label);
+        if (duplicateIndex !== undefined) {
+            diagnostics.push({
+                code: 'duplicate-type',
+                severity: 'warning',
+                index,
+                message:
+                    `The ${entry} has the same type as entry ${duplicateIndex}`,
+            });
+        } else {
+            labels.set(label, index);
+        }
+
+        if (catchAllIndex !== undefined) {
+            diagnostics.push({
+                code: 'unreachable-entry',
+                severity: 'error',
+                index,
+                message:
+                    `The ${entry} is unreachable after the catch-all entry ${catchAllIndex}`,
+            });
+            return;
+        }
+
+        const covered = MATCHING_THRESHOLDS.filter(({ key, increasing }) => {
+            const value = classification[key];
+            const extreme = extremes.get(key);
+            if (value === undefined || extreme === undefined) return false;
+            return increasing ? value <= extreme.value : value >= extreme.value;
+        });
+        const defined = MATCHING_THRESHOLDS.filter(({ key }) =>
+            classification[key] !== undefined
+        );
+        if (
+            classification.rule === undefined && defined.length > 0 &&
+            covered.length === defined.length
+        ) {
+            diagnostics.push({
+                code: 'unreachable-entry',
+                severity: 'error',
+                index,
+                message:
+                    `The ${entry} is unreachable, its thresholds are covered by earlier entries`,
+            });
+        } else if (classification.rule === undefined) {
+            for (const { key, increasing } of covered) {
+                const extreme = extremes.get(key)!;
+                if (classification[key] === extreme.value) continue;
+                diagnostics.push({
+                    code: 'non-monotonic-threshold',
+                    severity: 'error',
+                    index,
+                    message: `The ${key} of ${entry} (${
+                        classification[key]
+                    }) should be ${
+                        increasing ? 'above' : 'below'
+                    } the one of entry ${extreme.index} (${extreme.value})`,
+                });
+            }
+        }
+
+        // Better entries tolerate less jitter
+        if (classification.maxJitter !== undefined) {
+            const extreme = extremes.get('maxJitter');
+            if (extreme && classification.maxJitter > extreme.value) {
+                diagnostics.push({
+                    code: 'non-monotonic-threshold',
+                    severity: 'error',
+                    index,
+                    message:
+                        `The maxJitter of ${entry} (${classification.maxJitter}) should not exceed the one of entry ${extreme.index} (${extreme.value})`,
+                });
+            }
+        }
+
+        for (const { key, increasing } of MATCHING_THRESHOLDS) {
+            const value = classification[key];
+            const extreme = extremes.get(key);
+            if (
+                value !== undefined &&
+                (!extreme ||
+                    (increasing
+                        ? value > extreme.value
+                        : value < extreme.value))
+            ) {
+                extremes.set(key, { value, index });
+            }
+        }
+        const maxJitter = classification.maxJitter;
+        const jitterExtreme = extremes.get('maxJitter');
+        if (
+            maxJitter !== undefined &&
+            (!jitterExtreme || maxJitter < jitterExtreme.value)
+        ) {
+            extremes.set('maxJitter', { value: maxJitter, index });
+        }
+
+        if (isCatchAll(classification)) catchAllIndex = index;
+    });
+
+    const lastIndex = classificationTable.length - 1;
+    if (!isCatchAll(classificationTable[lastIndex])) {
+        diagnostics.push({
+            code: 'missing-catch-all',
+            severity: 'error',
+            index: lastIndex,
+            message: `The last ${
+                describeEntry(classificationTable[lastIndex], lastIndex)
+            } must be a catch-all, without thresholds nor rule`,
+        });
+    }
+
+    return diagnostics;
+}